@@ -4,13 +4,20 @@ import multer from 'multer';
 import dotenv from 'dotenv';
 import { createServer } from 'http';
 import { errorHandler, notFoundHandler, asyncHandler } from './middleware/errorHandler';
-import { validateTranslationRequest, validateImageFile } from './middleware/validation';
+import { requireAdmin } from './middleware/adminAuth';
+import { validateTranslationRequest, validateRetranslationRequest, validateFallbackImage, validateImageFile, getUploadedFiles, parseTargetLanguages, MAX_MENU_PAGES } from './middleware/validation';
 import { ocrService } from './services/ocrService';
-import { llmService } from './services/llmService';
+import { llmService, TARGET_LANGUAGES } from './services/llmService';
 import { imageGenService } from './services/imageGenService';
 import { websocketService } from './services/websocketService';
 import { MenuProcessor } from './services/menuProcessor';
+import { parseDietaryProfile } from './services/dietaryProfile';
+import { currencyService } from './services/currencyService';
 import { imageCacheService } from './services/imageCacheService';
+import { imageStorageService, ImageVariantFormat, ImageVariantWidth } from './services/imageStorageService';
+import { StoredImage } from './services/imageStores';
+import { fallbackImageService, parseFallbackImage } from './services/fallbackImageService';
+import { jobService } from './services/jobService';
 
 dotenv.config();
 
@@ -26,16 +33,21 @@ imageCacheService.initialize().catch(error => {
   console.warn('Failed to initialize Redis cache service:', error);
 });
 
+// Initialize job store (Redis with in-memory fallback)
+jobService.initialize().catch(error => {
+  console.warn('Failed to initialize job service:', error);
+});
+
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (req, file, cb) => {
-    if (file.mimetype.startsWith('image/')) {
+    if (file.mimetype.startsWith('image/') || file.mimetype === 'application/pdf') {
       cb(null, true);
     } else {
-      cb(new Error('Only image files are allowed'));
+      cb(new Error('Only image and PDF files are allowed'));
     }
   },
 });
@@ -116,6 +128,10 @@ app.get('/', (req, res) => {
         socket.on('processing_complete', (data) => {
           addEvent('Processing Complete', data);
         });
+
+        socket.on('processing_cancelled', (data) => {
+          addEvent('Processing Cancelled', data);
+        });
         
         socket.on('disconnect', () => {
           status.textContent = 'Disconnected';
@@ -139,35 +155,69 @@ app.get('/health', (req, res) => {
 });
 
 app.post('/api/translate', 
-  upload.single('image'), 
+  // `image` for a single photo, `images` for a multi-page menu
+  upload.fields([
+    { name: 'image', maxCount: 1 },
+    { name: 'images', maxCount: MAX_MENU_PAGES },
+  ]),
   validateImageFile,
   validateTranslationRequest,
   asyncHandler(async (req: express.Request, res: express.Response) => {
   try {
-    if (!req.file) {
+    const files = getUploadedFiles(req);
+    if (files.length === 0) {
       return res.status(400).json({
         success: false,
         error: 'No image file provided',
       });
     }
 
-    const { targetLanguage = 'English', generateImages = true, socketId } = req.body;
+    const { targetLanguage = 'en', targetLanguages, generateImages = true, imageBackend, ocrLanguage = 'auto', preprocess, extractionMode, dietaryProfile, homeCurrency, socketId } = req.body;
+    const shouldGenerateImages = generateImages === 'true' || generateImages === true;
+    // The first language is the menu's own; items carry the others as `translations`
+    const [primaryLanguage, ...additionalLanguages] = targetLanguages === undefined
+      ? [targetLanguage]
+      : parseTargetLanguages(targetLanguages);
+    // Already validated; multipart forms send it as a JSON string
+    const profile = dietaryProfile === undefined ? undefined : parseDietaryProfile(dietaryProfile);
+
+    const job = await jobService.createJob({
+      socketId,
+      targetLanguage: primaryLanguage,
+      additionalLanguages,
+      generateImages: shouldGenerateImages,
+      dietaryProfile: profile,
+      homeCurrency,
+    });
 
     // Return immediate response - processing will continue in background
     res.status(202).json({
       success: true,
       message: 'Processing started',
+      extractionMode,
       socketId,
+      jobId: job.id,
+      pageCount: files.length,
       status: 'processing'
     });
 
     // Start async processing
     MenuProcessor.processMenuAsync({
-      imageBuffer: req.file.buffer,
-      mimetype: req.file.mimetype,
-      targetLanguage,
-      generateImages: generateImages === 'true' || generateImages === true,
+      pages: files.map(file => ({ buffer: file.buffer, mimetype: file.mimetype })),
+      targetLanguage: primaryLanguage,
+      additionalLanguages,
+      generateImages: shouldGenerateImages,
+      imageBackend,
+      ocrLanguage,
+      preprocessImages: preprocess === undefined ? undefined : preprocess === 'true' || preprocess === true,
+      extractionMode,
+      dietaryProfile: profile,
+      homeCurrency,
       socketId,
+      jobId: job.id,
+    }).catch(error => {
+      // Only reached if recording the failure itself failed; the response is long gone
+      console.error(`Processing job ${job.id} failed:`, error);
     });
 
   } catch (error) {
@@ -179,6 +229,300 @@ app.post('/api/translate',
   }
 }));
 
+// Currencies prices can be converted into
+app.get('/api/currencies', asyncHandler(async (req: express.Request, res: express.Response) => {
+  res.json({
+    success: true,
+    currencies: await currencyService.getCurrencies(),
+  });
+}));
+
+// Languages menus can be translated into
+app.get('/api/languages', (req: express.Request, res: express.Response) => {
+  res.json({
+    success: true,
+    languages: Object.entries(TARGET_LANGUAGES).map(([code, name]) => ({ code, name })),
+  });
+});
+
+// Stored images never change (the hash is of their bytes), so they can be cached forever
+async function sendStoredImage(
+  req: express.Request,
+  res: express.Response,
+  etag: string,
+  load: () => Promise<StoredImage | null>
+) {
+  const cacheHeaders = {
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    ETag: `"${etag}"`,
+  };
+  // A client holding any copy of this hash holds the right bytes
+  if (req.headers['if-none-match'] === cacheHeaders.ETag) {
+    return res.set(cacheHeaders).status(304).end();
+  }
+
+  const image = await load();
+  if (!image) {
+    return res.status(404).json({
+      success: false,
+      error: 'Image not found',
+    });
+  }
+
+  res.set(cacheHeaders).type(image.contentType).send(image.data);
+}
+
+app.get('/images/:hash', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { hash } = req.params;
+  if (!imageStorageService.isValidHash(hash)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Image not found',
+    });
+  }
+
+  await sendStoredImage(req, res, hash, () => imageStorageService.getImage(hash));
+}));
+
+// Resized copies for srcset, e.g. /images/<hash>/512.webp
+app.get('/images/:hash/:width.:format', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { hash, format } = req.params;
+  const width = Number(req.params.width);
+  if (!imageStorageService.isValidHash(hash) || !imageStorageService.isVariant(width, format)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Image not found',
+    });
+  }
+
+  await sendStoredImage(req, res, `${hash}-${width}.${format}`, () =>
+    imageStorageService.getVariant(hash, width as ImageVariantWidth, format as ImageVariantFormat)
+  );
+}));
+
+app.get('/api/jobs/:id', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const job = await jobService.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: 'Job not found',
+    });
+  }
+
+  // The full result can be large; it has its own endpoint
+  res.json({
+    success: true,
+    job: { ...job, result: undefined },
+  });
+}));
+
+app.get('/api/jobs/:id/result', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const job = await jobService.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: 'Job not found',
+    });
+  }
+
+  if (!job.result) {
+    return res.status(202).json({
+      success: true,
+      status: 'processing',
+      stage: job.stage,
+    });
+  }
+
+  res.json({
+    success: true,
+    status: job.stage,
+    result: job.result,
+  });
+}));
+
+// Translates a stored job into another language without running OCR again; progress
+// arrives as the usual translation_* events
+app.post('/api/jobs/:id/translations', validateRetranslationRequest, asyncHandler(async (req: express.Request, res: express.Response) => {
+  const job = await jobService.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: 'Job not found',
+    });
+  }
+
+  if (jobService.isRunning(job.id)) {
+    return res.status(409).json({
+      success: false,
+      error: `Job is still running (stage: ${job.stage})`,
+    });
+  }
+
+  const { targetLanguage, socketId = job.socketId } = req.body;
+  const hasItems = (job.result?.translatedMenu.length ?? 0) > 0;
+  if (!hasItems && !job.ocr?.text && !job.result?.originalText) {
+    return res.status(409).json({
+      success: false,
+      error: 'Job has no OCR text or menu items to translate',
+    });
+  }
+  if (hasItems && targetLanguage === job.targetLanguage) {
+    return res.status(409).json({
+      success: false,
+      error: `Job is already translated into ${targetLanguage}`,
+    });
+  }
+
+  res.status(202).json({
+    success: true,
+    message: 'Translation started',
+    jobId: job.id,
+    targetLanguage,
+    // Stored items only need names and descriptions translated; OCR text is parsed again
+    source: hasItems ? 'items' : 'ocr_text',
+  });
+
+  MenuProcessor.retranslateJobAsync({ jobId: job.id, targetLanguage, socketId }).catch(error => {
+    // Errors are sent to the client over the socket; this catches ones thrown while doing so
+    console.error(`Re-translation of job ${job.id} failed:`, error);
+  });
+}));
+
+app.delete('/api/jobs/:id', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const job = await jobService.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: 'Job not found',
+    });
+  }
+
+  if (!jobService.cancelJob(job.id)) {
+    return res.status(409).json({
+      success: false,
+      error: `Job is not running (stage: ${job.stage})`,
+    });
+  }
+
+  res.status(202).json({
+    success: true,
+    message: 'Cancellation requested',
+    jobId: job.id,
+  });
+}));
+
+// Everything under /api/admin needs ADMIN_TOKEN
+app.use('/api/admin', requireAdmin);
+
+// Image cache
+app.get('/api/admin/cache/stats', asyncHandler(async (req: express.Request, res: express.Response) => {
+  res.json({
+    success: true,
+    stats: await imageCacheService.getCacheStats(),
+  });
+}));
+
+app.delete('/api/admin/cache', asyncHandler(async (req: express.Request, res: express.Response) => {
+  res.json({
+    success: true,
+    purged: await imageCacheService.purgeAll(),
+  });
+}));
+
+// A raw key as stored in Redis (img:<md5> or imgsem:<md5>)
+app.delete('/api/admin/cache/keys/:key', asyncHandler(async (req: express.Request, res: express.Response) => {
+  if (!imageCacheService.isCacheKey(req.params.key)) {
+    return res.status(400).json({
+      success: false,
+      error: 'key must be img:<md5> or imgsem:<md5>',
+    });
+  }
+
+  res.json({
+    success: true,
+    purged: await imageCacheService.purgeKey(req.params.key),
+  });
+}));
+
+// Everything cached for a dish name, e.g. after a bad image was generated for it
+app.delete('/api/admin/cache/dishes/:name', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const purged = await imageCacheService.purgeDish(req.params.name);
+  if (!purged) {
+    return res.status(400).json({
+      success: false,
+      error: 'name has no letters or digits',
+    });
+  }
+
+  res.json({ success: true, purged });
+}));
+
+// Fallback image catalog
+app.get('/api/admin/fallback-images', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const tag = typeof req.query.tag === 'string' ? req.query.tag : undefined;
+  const cuisine = typeof req.query.cuisine === 'string' ? req.query.cuisine : undefined;
+  res.json({
+    success: true,
+    images: await fallbackImageService.listImages({ tag, cuisine }),
+  });
+}));
+
+// Which catalog image a dish name would get, for checking aliases and tags
+app.get('/api/admin/fallback-images/match', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const name = typeof req.query.name === 'string' ? req.query.name : '';
+  res.json({
+    success: true,
+    image: name ? await fallbackImageService.findImage(name) : null,
+  });
+}));
+
+app.get('/api/admin/fallback-images/:id', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const image = await fallbackImageService.getImage(req.params.id);
+  if (!image) {
+    return res.status(404).json({
+      success: false,
+      error: 'Fallback image not found',
+    });
+  }
+
+  res.json({ success: true, image });
+}));
+
+app.post('/api/admin/fallback-images', validateFallbackImage, asyncHandler(async (req: express.Request, res: express.Response) => {
+  const image = parseFallbackImage(req.body);
+  if (!(await fallbackImageService.createImage(image))) {
+    return res.status(409).json({
+      success: false,
+      error: `Fallback image ${image.id} already exists`,
+    });
+  }
+
+  res.status(201).json({ success: true, image });
+}));
+
+app.put('/api/admin/fallback-images/:id', validateFallbackImage, asyncHandler(async (req: express.Request, res: express.Response) => {
+  const image = parseFallbackImage({ ...req.body, id: req.params.id });
+  if (!(await fallbackImageService.updateImage(image))) {
+    return res.status(404).json({
+      success: false,
+      error: 'Fallback image not found',
+    });
+  }
+
+  res.json({ success: true, image });
+}));
+
+app.delete('/api/admin/fallback-images/:id', asyncHandler(async (req: express.Request, res: express.Response) => {
+  if (!(await fallbackImageService.deleteImage(req.params.id))) {
+    return res.status(404).json({
+      success: false,
+      error: 'Fallback image not found',
+    });
+  }
+
+  res.json({ success: true });
+}));
+
 app.use(notFoundHandler);
 app.use(errorHandler);
 
@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Guards /api/admin routes with `Authorization: Bearer <ADMIN_TOKEN>`. Without ADMIN_TOKEN
+ * the admin API is switched off entirely.
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin API is disabled; set ADMIN_TOKEN to enable it',
+    });
+  }
+
+  const provided = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? '';
+  // Compared as hashes, so the comparison takes the same time whatever the lengths
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  if (!crypto.timingSafeEqual(digest(provided), digest(token))) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid admin token',
+    });
+  }
+
+  next();
+};
@@ -1,59 +1,169 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, validationResult, Meta } from 'express-validator';
+import { IMAGE_BACKEND_NAMES } from '../services/imageBackends';
+import { isSupportedOCRLanguage } from '../services/ocrService';
+import { EXTRACTION_MODES } from '../services/menuProcessor';
+import { parseDietaryProfile } from '../services/dietaryProfile';
+import { isSupportedTargetLanguage } from '../services/llmService';
+import { parseFallbackImage } from '../services/fallbackImageService';
+
+export const MAX_TARGET_LANGUAGES = 4;
+
+/**
+ * Target languages as a list (JSON bodies) or comma-separated (multipart forms), first one
+ * primary, without duplicates. Throws on an unsupported code.
+ */
+export const parseTargetLanguages = (value: unknown): string[] => {
+  const languages = (Array.isArray(value) ? value : String(value).split(','))
+    .map((language) => String(language).trim())
+    .filter(Boolean);
+  const unsupported = languages.find((language) => !isSupportedTargetLanguage(language));
+  if (unsupported) {
+    throw new Error(`Unsupported target language: ${unsupported}`);
+  }
+  return [...new Set(languages)];
+};
+
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+  }
+  next();
+};
 
 export const validateTranslationRequest = [
   body('targetLanguage')
     .optional()
-    .isString()
-    .isLength({ min: 2, max: 50 })
-    .withMessage('Target language must be between 2 and 50 characters'),
+    .custom((value: unknown) => typeof value === 'string' && isSupportedTargetLanguage(value))
+    .withMessage('targetLanguage must be a supported language code such as "en" or "zh-Hans"'),
+
+  body('targetLanguages')
+    .optional()
+    .custom((value: unknown) => {
+      const languages = parseTargetLanguages(value);
+      return languages.length > 0 && languages.length <= MAX_TARGET_LANGUAGES;
+    })
+    .withMessage(`targetLanguages must list 1 to ${MAX_TARGET_LANGUAGES} supported language codes`),
   
   body('generateImages')
     .optional()
     .isBoolean()
     .withMessage('generateImages must be a boolean value'),
+
+  body('imageBackend')
+    .optional()
+    .isIn(IMAGE_BACKEND_NAMES)
+    .withMessage(`imageBackend must be one of: ${IMAGE_BACKEND_NAMES.join(', ')}`),
+
+  body('ocrLanguage')
+    .optional()
+    .isString()
+    .custom((value: string) => isSupportedOCRLanguage(value))
+    .withMessage('ocrLanguage must be "auto" or supported Tesseract language codes joined with "+"'),
   
+  body('extractionMode')
+    .optional()
+    .isIn(EXTRACTION_MODES)
+    .withMessage(`extractionMode must be one of: ${EXTRACTION_MODES.join(', ')}`),
+
+  body('preprocess')
+    .optional()
+    .isBoolean()
+    .withMessage('preprocess must be a boolean value'),
+
+  body('dietaryProfile')
+    .optional()
+    .custom((value: unknown) => !!parseDietaryProfile(value))
+    .withMessage('dietaryProfile must be JSON with allergies (EU allergen keys), restrictions (vegetarian, vegan, halal, glutenFree) and dislikes'),
+
+  body('homeCurrency')
+    .optional()
+    .matches(/^[A-Z]{3}$/)
+    .withMessage('homeCurrency must be an ISO 4217 code such as USD'),
+
   body('socketId')
     .notEmpty()
     .isString()
     .isLength({ min: 1, max: 100 })
     .withMessage('socketId is required and must be a string'),
 
-  (req: Request, res: Response, next: NextFunction) => {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation failed',
-        details: errors.array(),
-      });
-    }
-    next();
-  },
+  handleValidationErrors,
+];
+
+export const validateRetranslationRequest = [
+  body('targetLanguage')
+    .custom((value: unknown) => typeof value === 'string' && isSupportedTargetLanguage(value))
+    .withMessage('targetLanguage must be a supported language code such as "en" or "zh-Hans"'),
+
+  // Defaults to the room the job was uploaded from
+  body('socketId')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('socketId must be a string'),
+
+  handleValidationErrors,
 ];
 
+// The whole body is one catalog entry; on PUT the id comes from the URL
+export const validateFallbackImage = [
+  body()
+    .custom((value: unknown, { req }: Meta) => !!parseFallbackImage({ ...(value as object), ...(req.params?.id ? { id: req.params.id } : {}) }))
+    .withMessage('Body must be a fallback image: id (lowercase slug), imageUrl, aliases (at least one), and optional tags, cuisines and attribution'),
+
+  handleValidationErrors,
+];
+
+export const MAX_MENU_PAGES = 6;
+
+/**
+ * Files uploaded as either a single `image` field or a multi-page `images` field, in page order.
+ */
+export const getUploadedFiles = (req: Request): Express.Multer.File[] => {
+  if (req.file) return [req.file];
+  if (!req.files) return [];
+  if (Array.isArray(req.files)) return req.files;
+  return [...(req.files.image || []), ...(req.files.images || [])];
+};
+
 export const validateImageFile = (req: Request, res: Response, next: NextFunction) => {
-  if (!req.file) {
+  const files = getUploadedFiles(req);
+  if (files.length === 0) {
     return res.status(400).json({
       success: false,
       error: 'Image file is required',
     });
   }
 
-  const allowedMimeTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-  if (!allowedMimeTypes.includes(req.file.mimetype)) {
+  if (files.length > MAX_MENU_PAGES) {
     return res.status(400).json({
       success: false,
-      error: 'Invalid file type. Only JPEG, PNG, and WebP images are allowed',
+      error: `Too many pages. Maximum is ${MAX_MENU_PAGES} images per menu`,
     });
   }
 
+  const allowedMimeTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'application/pdf'];
   const maxSize = 10 * 1024 * 1024; // 10MB
-  if (req.file.size > maxSize) {
-    return res.status(400).json({
-      success: false,
-      error: 'File too large. Maximum size is 10MB',
-    });
+
+  for (const file of files) {
+    if (!allowedMimeTypes.includes(file.mimetype)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid file type. Only JPEG, PNG, and WebP images or PDF menus are allowed',
+      });
+    }
+
+    if (file.size > maxSize) {
+      return res.status(400).json({
+        success: false,
+        error: 'File too large. Maximum size is 10MB',
+      });
+    }
   }
 
   next();
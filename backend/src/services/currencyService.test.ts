@@ -0,0 +1,55 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CurrencyService } from './currencyService';
+import { MenuProcessor } from './menuProcessor';
+import { MenuItem } from '../types';
+
+function ratesFile(rates: object): string {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'rates-')), 'rates.json');
+  fs.writeFileSync(file, JSON.stringify(rates));
+  return file;
+}
+
+afterEach(() => {
+  delete process.env.EXCHANGE_RATES_FILE;
+});
+
+test('converts through the base currency and rounds to cents', async () => {
+  process.env.EXCHANGE_RATES_FILE = ratesFile({ base: 'EUR', rates: { USD: 1.1, JPY: 160 } });
+  const service = new CurrencyService();
+
+  assert.deepEqual(await service.convert({ currency: 'EUR', options: [{ amount: 9.5 }] }, 'USD'), {
+    currency: 'USD',
+    options: [{ amount: 10.45 }],
+  });
+  assert.deepEqual(await service.convert({ currency: 'JPY', options: [{ size: 'S', amount: 1200 }, { size: 'L', amount: 1800 }] }, 'USD'), {
+    currency: 'USD',
+    options: [{ size: 'S', amount: 8.25 }, { size: 'L', amount: 12.38 }],
+  });
+});
+
+test('prices in unknown currencies are not converted', async () => {
+  process.env.EXCHANGE_RATES_FILE = ratesFile({ base: 'EUR', rates: { USD: 1.1 } });
+  const service = new CurrencyService();
+
+  assert.equal(await service.convert({ options: [{ amount: 9.5 }] }, 'USD'), undefined);
+  assert.equal(await service.convert({ currency: 'THB', options: [{ amount: 120 }] }, 'USD'), undefined);
+  assert.equal(await service.convert({ currency: 'EUR', options: [{ amount: 9.5 }] }, 'THB'), undefined);
+  assert.deepEqual(await service.getCurrencies(), ['EUR', 'USD']);
+});
+
+test('rejects a rates table with bad values', async () => {
+  process.env.EXCHANGE_RATES_FILE = ratesFile({ base: 'EUR', rates: { USD: -1 } });
+  await assert.rejects(new CurrencyService().getRates());
+});
+
+test('items keep their parsed price when conversion is impossible', async () => {
+  process.env.EXCHANGE_RATES_FILE = path.join(os.tmpdir(), 'no-such-rates.json');
+  const items: MenuItem[] = [{ name: 'Tiramisu', originalName: 'Tiramisù', description: '', price: '6,00 €' }];
+
+  await MenuProcessor.attachPrices(items, 'Italian', 'USD');
+  assert.deepEqual(items[0].parsedPrice, { currency: 'EUR', options: [{ amount: 6 }] });
+});
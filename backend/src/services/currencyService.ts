@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { ParsedPrice } from '../types';
+
+const exchangeRatesSchema = z.object({
+  // Currency the rates are quoted against
+  base: z.string().regex(/^[A-Z]{3}$/),
+  // Units of each currency per one unit of `base`
+  rates: z.record(z.string().regex(/^[A-Z]{3}$/), z.number().positive()),
+});
+
+export type ExchangeRates = z.infer<typeof exchangeRatesSchema>;
+
+/**
+ * Converts menu prices with a static rates table (EXCHANGE_RATES_FILE, defaulting to
+ * config/exchange-rates.json). No live rate API: an approximate "≈ $10" is all a diner
+ * needs, and the table can be refreshed by whatever job exports it.
+ */
+export class CurrencyService {
+  private static instance: CurrencyService;
+  private rates: ExchangeRates | null = null;
+
+  static getInstance(): CurrencyService {
+    if (!CurrencyService.instance) {
+      CurrencyService.instance = new CurrencyService();
+    }
+    return CurrencyService.instance;
+  }
+
+  private get ratesFile(): string {
+    return process.env.EXCHANGE_RATES_FILE || path.join(__dirname, '../../config/exchange-rates.json');
+  }
+
+  async getRates(): Promise<ExchangeRates> {
+    if (!this.rates) {
+      const file = await fs.promises.readFile(this.ratesFile, 'utf8');
+      this.rates = exchangeRatesSchema.parse(JSON.parse(file));
+      console.log(`Loaded ${Object.keys(this.rates.rates).length} exchange rates from ${this.ratesFile}`);
+    }
+    return this.rates;
+  }
+
+  async getCurrencies(): Promise<string[]> {
+    const { base, rates } = await this.getRates();
+    return [...new Set([base, ...Object.keys(rates)])].sort();
+  }
+
+  /**
+   * Returns `price` in `currency`, or undefined when its own currency is unknown or missing
+   * from the table.
+   */
+  async convert(price: ParsedPrice, currency: string): Promise<ParsedPrice['converted']> {
+    if (!price.currency) return undefined;
+
+    const { base, rates } = await this.getRates();
+    const rate = (code: string) => (code === base ? 1 : rates[code]);
+    const from = rate(price.currency);
+    const to = rate(currency);
+    if (!from || !to) return undefined;
+
+    return {
+      currency,
+      options: price.options.map((option) => ({
+        ...option,
+        amount: Math.round((option.amount / from) * to * 100) / 100,
+      })),
+    };
+  }
+}
+
+export const currencyService = CurrencyService.getInstance();
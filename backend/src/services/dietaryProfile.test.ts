@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkSuitability, parseDietaryProfile } from './dietaryProfile';
+import { DietaryInfo } from '../types';
+
+const pesto: DietaryInfo = {
+  vegetarian: true,
+  vegan: false,
+  halal: null,
+  glutenFree: true,
+  allergens: ['nuts', 'milk'],
+  spiceLevel: 0,
+  confidence: 'high',
+};
+
+const profile = (value: object) => parseDietaryProfile(value);
+
+test('keeps the model\'s verdict when the tags back it up', () => {
+  const verdict = { verdict: 'safe' as const, reason: 'Sin gluten y vegetariano' };
+  assert.deepEqual(checkSuitability(verdict, pesto, profile({ restrictions: ['vegetarian', 'glutenFree'] })), verdict);
+});
+
+test('an allergen in the tags means avoid, with the allergens as details', () => {
+  const result = checkSuitability({ verdict: 'safe', reason: 'Looks fine' }, pesto, profile({ allergies: ['nuts', 'eggs'] }));
+  assert.deepEqual(result, {
+    verdict: 'avoid',
+    reason: 'Likely contains nuts',
+    reasonCode: 'contains_allergens',
+    reasonDetails: ['nuts'],
+  });
+});
+
+test('a broken restriction means avoid', () => {
+  const result = checkSuitability({ verdict: 'caution', reason: 'Ask about the cheese' }, pesto, profile({ restrictions: ['vegan'] }));
+  assert.equal(result.verdict, 'avoid');
+  assert.equal(result.reasonCode, 'breaks_restrictions');
+  assert.deepEqual(result.reasonDetails, ['vegan']);
+});
+
+test('"safe" needs tags that say so', () => {
+  const halal = profile({ restrictions: ['halal'] });
+  assert.equal(checkSuitability({ verdict: 'safe', reason: 'Halal' }, pesto, halal).reasonCode, 'unclear');
+  assert.equal(checkSuitability({ verdict: 'safe', reason: 'Fine' }, undefined, profile({ allergies: ['eggs'] })).reasonCode, 'unclear');
+  assert.equal(checkSuitability({ verdict: 'safe', reason: 'Fine' }, { ...pesto, confidence: 'low' }, profile({ allergies: ['eggs'] })).verdict, 'caution');
+});
+
+test('never makes the model\'s verdict more lenient', () => {
+  const verdict = { verdict: 'avoid' as const, reason: 'Contiene piñones' };
+  assert.deepEqual(checkSuitability(verdict, undefined, profile({ dislikes: ['pine nuts'] })), verdict);
+});
+
+test('an item the model didn\'t judge is flagged for checking', () => {
+  const result = checkSuitability(null, pesto, profile({ dislikes: ['basil'] }));
+  assert.equal(result.verdict, 'caution');
+  assert.equal(result.reasonCode, 'unchecked');
+});
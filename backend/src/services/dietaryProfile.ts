@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { DietaryInfo, DietaryProfile, Suitability } from '../types';
+import { EU_ALLERGENS } from './menuSchema';
+
+// Restrictions are DietaryInfo flags, so an item breaking one can be caught without the model
+export const DIETARY_RESTRICTIONS = ['vegetarian', 'vegan', 'halal', 'glutenFree'] as const;
+type DietaryRestriction = typeof DIETARY_RESTRICTIONS[number];
+
+const RESTRICTION_LABELS: Record<DietaryRestriction, string> = {
+  vegetarian: 'vegetarian',
+  vegan: 'vegan',
+  halal: 'halal',
+  glutenFree: 'gluten-free',
+};
+
+const VERDICT_SEVERITY: Record<Suitability['verdict'], number> = { safe: 0, caution: 1, avoid: 2 };
+
+const dietaryProfileSchema = z.object({
+  allergies: z.array(z.enum(EU_ALLERGENS)).default([]),
+  restrictions: z.array(z.enum(DIETARY_RESTRICTIONS)).default([]),
+  dislikes: z.array(z.string().trim().min(1).max(50)).max(20).default([]),
+});
+
+/**
+ * Parses the profile sent with an upload: a JSON string in multipart forms, an object in
+ * JSON bodies. Throws if it is malformed.
+ */
+export function parseDietaryProfile(value: unknown): DietaryProfile {
+  return dietaryProfileSchema.parse(typeof value === 'string' ? JSON.parse(value) : value);
+}
+
+export function hasDietaryProfile(profile?: DietaryProfile): profile is DietaryProfile {
+  return !!profile && profile.allergies.length + profile.restrictions.length + profile.dislikes.length > 0;
+}
+
+// For the prompt. Dislikes are the diner's own words, so they are quoted.
+export function describeDietaryProfile(profile: DietaryProfile): string {
+  const restrictions = profile.restrictions.map((restriction) => RESTRICTION_LABELS[restriction as DietaryRestriction]);
+
+  return [
+    `- Allergies: ${profile.allergies.join(', ') || 'none'}`,
+    `- Must be: ${restrictions.join(', ') || 'no restrictions'}`,
+    `- Dislikes: ${profile.dislikes.map((dislike) => JSON.stringify(dislike)).join(', ') || 'none'}`,
+  ].join('\n');
+}
+
+/**
+ * Cross-checks the model's verdict against the item's own dietary tags. This can only make
+ * the verdict stricter: a matching allergen or a broken restriction means avoid, and
+ * "safe" needs tags that back it up. Verdicts decided here carry a `reasonCode`, since
+ * only the model writes in the diner's language.
+ */
+export function checkSuitability(
+  modelVerdict: Suitability | null,
+  dietary: DietaryInfo | undefined,
+  profile: DietaryProfile
+): Suitability {
+  const verdict: Suitability = modelVerdict
+    ?? { verdict: 'caution', reason: 'Could not be checked against your profile', reasonCode: 'unchecked' };
+  const restrictions = profile.restrictions as DietaryRestriction[];
+  const flag = (restriction: DietaryRestriction) => dietary?.[restriction as keyof DietaryInfo];
+
+  const allergens = dietary?.allergens.filter((allergen) => profile.allergies.includes(allergen)) ?? [];
+  const broken = restrictions.filter((restriction) => flag(restriction) === false);
+
+  let check: Suitability | null = null;
+  if (allergens.length > 0) {
+    check = {
+      verdict: 'avoid',
+      reason: `Likely contains ${allergens.join(', ')}`,
+      reasonCode: 'contains_allergens',
+      reasonDetails: allergens,
+    };
+  } else if (broken.length > 0) {
+    check = {
+      verdict: 'avoid',
+      reason: `Not ${broken.map((restriction) => RESTRICTION_LABELS[restriction]).join(' or ')}`,
+      reasonCode: 'breaks_restrictions',
+      reasonDetails: broken,
+    };
+  } else if (!dietary || dietary.confidence === 'low' || restrictions.some((restriction) => flag(restriction) === null)) {
+    check = { verdict: 'caution', reason: 'The menu does not say enough to be sure - check with staff', reasonCode: 'unclear' };
+  }
+
+  return check && VERDICT_SEVERITY[check.verdict] > VERDICT_SEVERITY[verdict.verdict] ? check : verdict;
+}
+
+// The model's own wording of a verdict, which is what needs translating along with the item
+export function modelReason(suitability?: Suitability): string | null {
+  return suitability && !suitability.reasonCode ? suitability.reason : null;
+}
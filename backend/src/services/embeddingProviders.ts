@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import OpenAI from 'openai';
+
+export type EmbeddingProviderName = 'openai' | 'local' | 'hash';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  // Cosine similarity at or above which two dish descriptions count as the same dish.
+  // Scores are only comparable within one model, so each provider brings its own.
+  readonly similarityThreshold: number;
+  initialize(): Promise<void>;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+/**
+ * OpenAI embeddings. text-embedding-3 models are multilingual, so "Pad Thai" and
+ * "ผัดไทย" land close together.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: EmbeddingProviderName = 'openai';
+  readonly similarityThreshold = 0.85;
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly model: string = 'text-embedding-3-small',
+    private readonly apiKey: string | undefined = process.env.OPENAI_API_KEY
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (this.client) return;
+
+    if (!this.apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is required for OpenAI embeddings');
+    }
+    this.client = new OpenAI({ apiKey: this.apiKey });
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    await this.initialize();
+    const response = await this.client!.embeddings.create({ model: this.model, input: texts }, { signal });
+    return response.data.sort((a, b) => a.index - b.index).map((entry) => entry.embedding);
+  }
+}
+
+/**
+ * Embeddings from an OpenAI-compatible local server, e.g. Ollama with nomic-embed-text.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name: EmbeddingProviderName = 'local';
+  readonly similarityThreshold = 0.8;
+  private client: OpenAI;
+
+  constructor(
+    readonly model: string = 'nomic-embed-text',
+    baseURL: string = process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1'
+  ) {
+    this.client = new OpenAI({ apiKey: process.env.LOCAL_LLM_API_KEY || 'local', baseURL });
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to do - the server is checked on first request
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await this.client.embeddings.create({ model: this.model, input: texts }, { signal });
+    return response.data.sort((a, b) => a.index - b.index).map((entry) => entry.embedding);
+  }
+}
+
+/**
+ * Offline fallback: hashes character trigrams into a fixed-size vector. Catches spelling
+ * variants ("Pad Thai" / "Phad Thai") and works on any script, but knows nothing about
+ * meaning, so translations of a dish don't match each other.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name: EmbeddingProviderName = 'hash';
+  readonly similarityThreshold = 0.75;
+
+  constructor(private readonly dimensions: number = 512) {}
+
+  get model(): string {
+    return `trigram-hash-${this.dimensions}`;
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to initialize
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      for (const word of text.normalize('NFKC').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+        const padded = Array.from(` ${word} `);
+        for (let i = 0; i + 3 <= padded.length; i++) {
+          const bucket = crypto.createHash('md5').update(padded.slice(i, i + 3).join('')).digest().readUInt32LE(0);
+          vector[bucket % this.dimensions] += 1;
+        }
+      }
+      return vector;
+    });
+  }
+}
+
+export function createEmbeddingProvider(
+  name: string = process.env.EMBEDDING_PROVIDER || 'openai',
+  model: string | undefined = process.env.EMBEDDING_MODEL || undefined
+): EmbeddingProvider {
+  switch (name.toLowerCase()) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(model);
+    case 'local':
+    case 'ollama':
+      return new LocalEmbeddingProvider(model);
+    case 'hash':
+      return new HashEmbeddingProvider();
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
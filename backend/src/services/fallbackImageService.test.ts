@@ -0,0 +1,104 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import YAML from 'yaml';
+import { FallbackImageService } from './fallbackImageService';
+
+const catalogYaml = `images:
+  - id: sushi
+    imageUrl: https://images.example.com/sushi.jpg
+    aliases: [sushi, sushi roll, 寿司]
+    tags: [rice, fish]
+    cuisines: [japanese]
+  - id: bread
+    imageUrl: https://images.example.com/bread.jpg
+    aliases: [bread, bread roll]
+    tags: [bread]
+  - id: chicken-wings
+    imageUrl: https://images.example.com/wings.jpg
+    aliases: [chicken wing, alitas de pollo]
+    tags: [chicken]
+  - id: burger
+    imageUrl: https://images.example.com/burger.jpg
+    aliases: [burger]
+    tags: [beef]
+  - id: chicken-burger
+    imageUrl: https://images.example.com/chicken-burger.jpg
+    aliases: [chicken burger]
+    tags: [chicken]
+`;
+
+function catalogFile(name: string, contents: string): string {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'fallback-images-')), name);
+  fs.writeFileSync(file, contents);
+  process.env.FALLBACK_IMAGES_FILE = file;
+  return file;
+}
+
+afterEach(() => {
+  delete process.env.FALLBACK_IMAGES_FILE;
+});
+
+const found = async (service: FallbackImageService, name: string) => (await service.findImage(name))?.id ?? null;
+
+test('reads a YAML catalog', async () => {
+  catalogFile('catalog.yaml', catalogYaml);
+  const service = new FallbackImageService();
+
+  assert.deepEqual((await service.listImages({ cuisine: 'Japanese' })).map((image) => image.id), ['sushi']);
+  assert.deepEqual((await service.getImage('bread'))?.cuisines, []);
+});
+
+test('matches aliases as whole words, preferring the longest', async () => {
+  catalogFile('catalog.yml', catalogYaml);
+  const service = new FallbackImageService();
+
+  assert.equal(await found(service, 'Warm Bread Roll'), 'bread');
+  assert.equal(await found(service, 'Spicy Tuna Sushi Roll'), 'sushi');
+  assert.equal(await found(service, 'Crispy Chicken Burger'), 'chicken-burger');
+  assert.equal(await found(service, 'Buffalo Chicken Wings'), 'chicken-wings');
+  assert.equal(await found(service, 'Alitas de Pollo BBQ'), 'chicken-wings');
+  // No spaces to split on, so the alias is looked for inside the name
+  assert.equal(await found(service, '特上寿司セット'), 'sushi');
+  // "burger" is not a word of "hamburgers"
+  assert.equal(await found(service, 'Hamburgers'), null);
+});
+
+test('falls back to tags only when no alias matches', async () => {
+  catalogFile('catalog.yaml', catalogYaml);
+  const service = new FallbackImageService();
+
+  // Tags of the first entry with the most matches
+  assert.equal(await found(service, 'Grilled Fish over Rice'), 'sushi');
+  assert.equal(await found(service, 'Roast Chicken'), 'chicken-wings');
+  assert.equal(await found(service, 'Beef Stew'), 'burger');
+  assert.equal(await found(service, 'Lentil Soup'), null);
+});
+
+test('writes edits back as YAML to a YAML catalog', async () => {
+  const file = catalogFile('catalog.yaml', catalogYaml);
+  const service = new FallbackImageService();
+
+  assert.equal(await service.deleteImage('burger'), true);
+  assert.equal(await service.createImage({
+    id: 'ramen',
+    imageUrl: 'https://images.example.com/ramen.jpg',
+    aliases: ['ramen', 'ラーメン'],
+    tags: ['noodles'],
+    cuisines: ['japanese'],
+  }), true);
+
+  const saved = YAML.parse(fs.readFileSync(file, 'utf8'));
+  assert.deepEqual(saved.images.map((image: { id: string }) => image.id), ['sushi', 'bread', 'chicken-wings', 'chicken-burger', 'ramen']);
+  assert.equal(await found(new FallbackImageService(), '味噌ラーメン'), 'ramen');
+});
+
+test('JSON catalogs stay JSON', async () => {
+  const file = catalogFile('catalog.json', JSON.stringify(YAML.parse(catalogYaml)));
+  const service = new FallbackImageService();
+
+  assert.equal(await service.deleteImage('bread'), true);
+  assert.equal(JSON.parse(fs.readFileSync(file, 'utf8')).images.length, 4);
+});
@@ -0,0 +1,215 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { imageCacheService } from './imageCacheService';
+
+const listSchema = (max: number) => z.array(z.string().trim().toLowerCase().min(1).max(100)).max(max);
+
+const fallbackImageSchema = z.object({
+  // Slug, e.g. "pad-thai"
+  id: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/).max(64),
+  imageUrl: z.url(),
+  // Names of the dish in any language; a menu item matching one gets this image
+  aliases: listSchema(50).min(1),
+  // Ingredients and kinds of dish ("chicken", "noodles"); weaker matches, used when no alias fits
+  tags: listSchema(30).default([]),
+  cuisines: listSchema(10).default([]),
+  attribution: z.object({
+    author: z.string().max(200).optional(),
+    source: z.string().max(200).optional(),
+    sourceUrl: z.url().optional(),
+    license: z.string().max(200).optional(),
+    licenseUrl: z.url().optional(),
+  }).optional(),
+});
+
+const catalogSchema = z.object({
+  images: z.array(fallbackImageSchema),
+});
+
+export type FallbackImage = z.infer<typeof fallbackImageSchema>;
+
+export interface FallbackImageFilter {
+  tag?: string;
+  cuisine?: string;
+}
+
+/**
+ * Parses a catalog entry sent to the admin API. Throws if it is malformed.
+ */
+export function parseFallbackImage(value: unknown): FallbackImage {
+  return fallbackImageSchema.parse(value);
+}
+
+// Catalogs ending in .yaml or .yml are YAML, anything else JSON
+const isYamlFile = (file: string) => /\.ya?ml$/i.test(file);
+
+// Scripts written without spaces between words, where a dish name is one long "token"
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+function normalize(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// "wings" matches "wing", "salads" matches "salad"
+function singular(token: string): string {
+  return token.length > 3 ? token.replace(/(?:es|s)$/, '') : token;
+}
+
+// Whether `phrase` occurs in the name as whole words, in order
+function containsPhrase(nameTokens: string[], phrase: string[]): boolean {
+  if (phrase.length === 0) return false;
+  for (let start = 0; start + phrase.length <= nameTokens.length; start++) {
+    if (phrase.every((token, i) => singular(nameTokens[start + i]) === singular(token))) return true;
+  }
+  return false;
+}
+
+// Longer matches are more specific: "chicken burger" beats "burger"
+function phraseScore(name: string, nameTokens: string[], phrase: string): number {
+  if (UNSPACED_SCRIPT.test(phrase)) {
+    return normalize(name).includes(normalize(phrase)) ? Array.from(phrase).length : 0;
+  }
+  const tokens = tokenize(phrase);
+  return containsPhrase(nameTokens, tokens) ? tokens.length : 0;
+}
+
+/**
+ * Stock photos shown when a dish has no generated image, read from FALLBACK_IMAGES_FILE
+ * (defaulting to config/fallback-images.json), which may be JSON or YAML. Changes made
+ * through the admin API are written back to that file in the same format.
+ */
+export class FallbackImageService {
+  private static instance: FallbackImageService;
+  private images: FallbackImage[] | null = null;
+  // Writes are chained so two quick edits can't interleave on disk
+  private saving: Promise<void> = Promise.resolve();
+
+  static getInstance(): FallbackImageService {
+    if (!FallbackImageService.instance) {
+      FallbackImageService.instance = new FallbackImageService();
+    }
+    return FallbackImageService.instance;
+  }
+
+  private get catalogFile(): string {
+    return process.env.FALLBACK_IMAGES_FILE || path.join(__dirname, '../../config/fallback-images.json');
+  }
+
+  private async getImages(): Promise<FallbackImage[]> {
+    if (!this.images) {
+      const file = await fs.promises.readFile(this.catalogFile, 'utf8');
+      this.images = catalogSchema.parse(isYamlFile(this.catalogFile) ? YAML.parse(file) : JSON.parse(file)).images;
+      console.log(`Loaded ${this.images.length} fallback images from ${this.catalogFile}`);
+    }
+    return this.images;
+  }
+
+  private async save(): Promise<void> {
+    const images = await this.getImages();
+    const file = this.catalogFile;
+    const write = this.saving.then(async () => {
+      const temporary = `${file}.${process.pid}.tmp`;
+      await fs.promises.writeFile(
+        temporary,
+        isYamlFile(file) ? YAML.stringify({ images }) : `${JSON.stringify({ images }, null, 2)}\n`
+      );
+      await fs.promises.rename(temporary, file);
+    });
+    // A failed write mustn't block the ones after it
+    this.saving = write.catch(() => undefined);
+    return write;
+  }
+
+  async listImages(filter: FallbackImageFilter = {}): Promise<FallbackImage[]> {
+    const tag = filter.tag?.toLowerCase();
+    const cuisine = filter.cuisine?.toLowerCase();
+    return (await this.getImages()).filter((image) =>
+      (!tag || image.tags.includes(tag)) && (!cuisine || image.cuisines.includes(cuisine))
+    );
+  }
+
+  async getImage(id: string): Promise<FallbackImage | null> {
+    return (await this.getImages()).find((image) => image.id === id) ?? null;
+  }
+
+  /**
+   * Adds an entry. Returns false if one with the same id already exists.
+   */
+  async createImage(image: FallbackImage): Promise<boolean> {
+    const images = await this.getImages();
+    if (images.some((existing) => existing.id === image.id)) return false;
+
+    images.push(image);
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Replaces an entry. Returns false if there is none with that id.
+   */
+  async updateImage(image: FallbackImage): Promise<boolean> {
+    const images = await this.getImages();
+    const index = images.findIndex((existing) => existing.id === image.id);
+    if (index === -1) return false;
+
+    images[index] = image;
+    await this.save();
+    return true;
+  }
+
+  async deleteImage(id: string): Promise<boolean> {
+    const images = await this.getImages();
+    const index = images.findIndex((existing) => existing.id === id);
+    if (index === -1) return false;
+
+    images.splice(index, 1);
+    await this.save();
+    return true;
+  }
+
+  /**
+   * The catalog image that best fits a dish name. Aliases are matched as whole words (or as
+   * substrings in scripts without spaces), so "bread roll" doesn't match "sushi roll"; tags
+   * only count when no alias matches. Earlier entries win ties.
+   */
+  async findImage(itemName: string): Promise<FallbackImage | null> {
+    const nameTokens = tokenize(itemName);
+    let best: { image: FallbackImage; score: number } | null = null;
+
+    for (const image of await this.getImages()) {
+      const aliasScore = Math.max(0, ...image.aliases.map((alias) => phraseScore(itemName, nameTokens, alias)));
+      const tagScore = image.tags.filter((tag) => phraseScore(itemName, nameTokens, tag) > 0).length;
+      // Any alias match outranks any number of tag matches
+      const score = aliasScore > 0 ? 1000 + aliasScore * 10 + tagScore : tagScore;
+
+      if (score > 0 && (!best || score > best.score)) {
+        best = { image, score };
+      }
+    }
+
+    if (best) {
+      console.log(`Using fallback image for ${itemName} (matched: ${best.image.id})`);
+    }
+    return best?.image ?? null;
+  }
+
+  async getFallbackImageUrl(itemName: string): Promise<string | null> {
+    try {
+      const imageUrl = (await this.findImage(itemName))?.imageUrl ?? null;
+      imageCacheService.recordFallback(imageUrl !== null);
+      return imageUrl;
+    } catch (error) {
+      // A broken catalog file shouldn't fail image generation
+      console.warn('Failed to read the fallback image catalog:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
+
+export const fallbackImageService = FallbackImageService.getInstance();
@@ -0,0 +1,315 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import zlib from 'zlib';
+import OpenAI from 'openai';
+import { MenuItem } from '../types';
+import { sleep } from '../utils/abortUtils';
+
+export type ImageBackendName = 'dalle' | 'stable-diffusion' | 'comfyui' | 'stock' | 'mock';
+
+export const IMAGE_BACKEND_NAMES: ImageBackendName[] = ['dalle', 'stable-diffusion', 'comfyui', 'stock', 'mock'];
+
+export interface ImageBackend {
+  readonly name: ImageBackendName;
+  // Whether results are worth putting in the shared image cache
+  readonly cacheable: boolean;
+  // Whether results are copied into our own image storage. Stock photos must be hotlinked.
+  readonly storeResults: boolean;
+  initialize(): Promise<void>;
+  generate(prompt: string, menuItem: MenuItem, signal?: AbortSignal): Promise<string>;
+}
+
+export class DallEBackend implements ImageBackend {
+  readonly name: ImageBackendName = 'dalle';
+  readonly cacheable = true;
+  readonly storeResults = true;
+  private client: OpenAI | null = null;
+
+  async initialize(): Promise<void> {
+    if (this.client) return;
+
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        'OPENAI_API_KEY environment variable is required for image generation'
+      );
+    }
+
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async generate(prompt: string, _menuItem: MenuItem, signal?: AbortSignal): Promise<string> {
+    await this.initialize();
+
+    const response = await this.client!.images.generate({
+      model: 'dall-e-3',
+      prompt: prompt,
+      n: 1,
+      size: '1024x1024',
+      quality: 'standard',
+      style: 'natural',
+    }, { signal });
+
+    if (!response.data || response.data.length === 0) {
+      throw new Error('No image data returned from DALL-E');
+    }
+
+    const imageUrl = response.data[0]?.url;
+    if (!imageUrl) {
+      throw new Error('No image URL returned from DALL-E');
+    }
+
+    return imageUrl;
+  }
+}
+
+/**
+ * Automatic1111 web UI (`--api`). Images come back base64 encoded, so we return a data URL.
+ */
+export class StableDiffusionBackend implements ImageBackend {
+  readonly name: ImageBackendName = 'stable-diffusion';
+  readonly cacheable = true;
+  readonly storeResults = true;
+
+  constructor(private readonly baseUrl: string = process.env.SD_API_URL || 'http://localhost:7860') {}
+
+  async initialize(): Promise<void> {
+    // Nothing to initialize - the server is checked on first request
+  }
+
+  async generate(prompt: string, _menuItem: MenuItem, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/sdapi/v1/txt2img`, {
+      method: 'POST',
+      signal,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        prompt,
+        negative_prompt: 'text, watermark, logo, blurry, low quality',
+        width: 512,
+        height: 512,
+        steps: Number(process.env.SD_STEPS || 25),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Stable Diffusion request failed with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as { images?: string[] };
+    const image = data.images?.[0];
+    if (!image) {
+      throw new Error('No image returned from Stable Diffusion');
+    }
+
+    return `data:image/png;base64,${image}`;
+  }
+}
+
+/**
+ * ComfyUI HTTP API. Expects an API-format workflow JSON (COMFYUI_WORKFLOW_FILE) in which the
+ * positive prompt text is the literal placeholder "%PROMPT%".
+ */
+export class ComfyUIBackend implements ImageBackend {
+  readonly name: ImageBackendName = 'comfyui';
+  readonly cacheable = true;
+  readonly storeResults = true;
+  private workflowTemplate: string | null = null;
+
+  constructor(
+    private readonly baseUrl: string = process.env.COMFYUI_URL || 'http://localhost:8188',
+    private readonly workflowFile: string | undefined = process.env.COMFYUI_WORKFLOW_FILE,
+    private readonly timeoutMs: number = 120000
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (this.workflowTemplate) return;
+
+    if (!this.workflowFile) {
+      throw new Error('COMFYUI_WORKFLOW_FILE environment variable is required for ComfyUI');
+    }
+    this.workflowTemplate = await fs.promises.readFile(this.workflowFile, 'utf8');
+  }
+
+  async generate(prompt: string, _menuItem: MenuItem, signal?: AbortSignal): Promise<string> {
+    await this.initialize();
+
+    // JSON.stringify gives us an escaped string literal; drop its surrounding quotes
+    const escapedPrompt = JSON.stringify(prompt).slice(1, -1);
+    const workflow = JSON.parse(this.workflowTemplate!.split('%PROMPT%').join(escapedPrompt));
+
+    const queued = await fetch(`${this.baseUrl}/prompt`, {
+      method: 'POST',
+      signal,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ prompt: workflow }),
+    });
+    if (!queued.ok) {
+      throw new Error(`ComfyUI request failed with status ${queued.status}`);
+    }
+    const { prompt_id: promptId } = (await queued.json()) as { prompt_id: string };
+
+    const deadline = Date.now() + this.timeoutMs;
+    while (Date.now() < deadline) {
+      await sleep(1000, signal);
+
+      const historyResponse = await fetch(`${this.baseUrl}/history/${promptId}`, { signal });
+      if (!historyResponse.ok) continue;
+
+      const history = (await historyResponse.json()) as Record<string, {
+        outputs?: Record<string, { images?: Array<{ filename: string; subfolder: string; type: string }> }>;
+      }>;
+      const outputs = history[promptId]?.outputs;
+      if (!outputs) continue;
+
+      for (const output of Object.values(outputs)) {
+        const image = output.images?.[0];
+        if (image) {
+          const params = new URLSearchParams({
+            filename: image.filename,
+            subfolder: image.subfolder,
+            type: image.type,
+          });
+          const imageResponse = await fetch(`${this.baseUrl}/view?${params.toString()}`, { signal });
+          const buffer = Buffer.from(await imageResponse.arrayBuffer());
+          return `data:image/png;base64,${buffer.toString('base64')}`;
+        }
+      }
+    }
+
+    throw new Error(`ComfyUI did not finish within ${this.timeoutMs}ms`);
+  }
+}
+
+/**
+ * Searches Unsplash for a real photo of the dish instead of generating one.
+ */
+export class StockPhotoBackend implements ImageBackend {
+  readonly name: ImageBackendName = 'stock';
+  readonly cacheable = true;
+  readonly storeResults = false;
+
+  constructor(private readonly accessKey: string | undefined = process.env.UNSPLASH_ACCESS_KEY) {}
+
+  async initialize(): Promise<void> {
+    if (!this.accessKey) {
+      throw new Error('UNSPLASH_ACCESS_KEY environment variable is required for stock photos');
+    }
+  }
+
+  async generate(_prompt: string, menuItem: MenuItem, signal?: AbortSignal): Promise<string> {
+    await this.initialize();
+
+    const params = new URLSearchParams({
+      query: `${menuItem.name} food`,
+      per_page: '1',
+      orientation: 'squarish',
+      content_filter: 'high',
+    });
+    const response = await fetch(`https://api.unsplash.com/search/photos?${params.toString()}`, {
+      signal,
+      headers: { Authorization: `Client-ID ${this.accessKey}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Unsplash search failed with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as { results?: Array<{ urls?: { regular?: string } }> };
+    const imageUrl = data.results?.[0]?.urls?.regular;
+    if (!imageUrl) {
+      throw new Error(`No stock photo found for ${menuItem.name}`);
+    }
+
+    return imageUrl;
+  }
+}
+
+/**
+ * Renders a solid-colour placeholder PNG locally. The colour is derived from the dish name,
+ * so the same dish always gets the same tile. No network access needed.
+ */
+export class MockImageBackend implements ImageBackend {
+  readonly name: ImageBackendName = 'mock';
+  readonly cacheable = false;
+  readonly storeResults = true;
+
+  constructor(private readonly size: number = 256) {}
+
+  async initialize(): Promise<void> {
+    // Nothing to initialize
+  }
+
+  async generate(_prompt: string, menuItem: MenuItem): Promise<string> {
+    const hash = crypto.createHash('md5').update(menuItem.name).digest();
+    const png = encodeSolidPng(this.size, this.size, [hash[0], hash[1], hash[2]]);
+    return `data:image/png;base64,${png.toString('base64')}`;
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+function encodeSolidPng(width: number, height: number, [r, g, b]: number[]): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: RGB
+
+  // Each scanline starts with a filter byte (0 = none)
+  const row = Buffer.alloc(1 + width * 3);
+  for (let x = 0; x < width; x++) {
+    row[1 + x * 3] = r;
+    row[2 + x * 3] = g;
+    row[3 + x * 3] = b;
+  }
+  const raw = Buffer.concat(Array.from({ length: height }, () => row));
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+export function createImageBackend(
+  name: string = process.env.IMAGE_BACKEND || 'dalle'
+): ImageBackend {
+  switch (name.toLowerCase()) {
+    case 'dalle':
+      return new DallEBackend();
+    case 'stable-diffusion':
+      return new StableDiffusionBackend();
+    case 'comfyui':
+      return new ComfyUIBackend();
+    case 'stock':
+      return new StockPhotoBackend();
+    case 'mock':
+      return new MockImageBackend();
+    default:
+      throw new Error(`Unknown image backend: ${name}`);
+  }
+}
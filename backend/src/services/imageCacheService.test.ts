@@ -0,0 +1,58 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ImageCacheService } from './imageCacheService';
+
+const padThai = 'https://images.unsplash.com/photo-pad-thai?w=400';
+
+afterEach(() => {
+  delete process.env.EMBEDDING_PROVIDER;
+  delete process.env.IMAGE_CACHE_SEMANTIC;
+});
+
+test('finds a dish by its exact name, then by a similar one', async () => {
+  process.env.EMBEDDING_PROVIDER = 'hash';
+  const cache = new ImageCacheService();
+  await cache.setCachedImage('Pad Thai', 'Rice noodles with shrimp', padThai);
+
+  assert.equal((await cache.getCachedImage('pad thai!', ''))?.imageUrl, padThai);
+  assert.equal((await cache.getCachedImage('Phad Thai', 'Rice noodles with shrimp'))?.imageUrl, padThai);
+  assert.equal(await cache.getCachedImage('Green Curry', 'Coconut milk and basil'), null);
+
+  const stats = await cache.getCacheStats();
+  assert.deepEqual(
+    { lookups: stats.lookups, hits: stats.hits, misses: stats.misses, hitRate: stats.hitRate },
+    { lookups: 3, hits: 2, misses: 1, hitRate: 0.667 }
+  );
+  assert.equal(stats.tiers.memory.hits, 1);
+  assert.equal(stats.tiers.semantic.hits, 1);
+  assert.deepEqual(stats.semantic, { size: 1 });
+  assert.deepEqual(stats.redis, { connected: false });
+});
+
+test('without embeddings only exact names match', async () => {
+  process.env.EMBEDDING_PROVIDER = 'hash';
+  process.env.IMAGE_CACHE_SEMANTIC = 'false';
+  const cache = new ImageCacheService();
+  await cache.setCachedImage('Pad Thai', 'Rice noodles with shrimp', padThai);
+
+  assert.equal(await cache.getCachedImage('Phad Thai', 'Rice noodles with shrimp'), null);
+  assert.equal((await cache.getCacheStats()).semantic.size, 0);
+});
+
+test('expiring URLs are not cached', async () => {
+  const cache = new ImageCacheService();
+  await cache.setCachedImage('Pad Thai', '', 'https://oaidalleapiprodscus.blob.core.windows.net/private/img.png?se=soon');
+
+  assert.equal(await cache.getCachedImage('Pad Thai', ''), null);
+  assert.equal((await cache.getCacheStats()).memory.size, 0);
+});
+
+test('purging a dish keeps it from coming back through a similar name', async () => {
+  process.env.EMBEDDING_PROVIDER = 'hash';
+  const cache = new ImageCacheService();
+  await cache.setCachedImage('Pad Thai', 'Rice noodles with shrimp', padThai);
+
+  const purged = await cache.purgeDish('Pad Thai');
+  assert.deepEqual(purged, { redis: 0, memory: 1, semantic: 1 });
+  assert.equal(await cache.getCachedImage('Phad Thai', 'Rice noodles with shrimp'), null);
+});
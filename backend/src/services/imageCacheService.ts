@@ -1,5 +1,8 @@
 import crypto from 'crypto';
 import { createClient, RedisClientType } from 'redis';
+import { imageStorageService } from './imageStorageService';
+import { EmbeddingProvider, createEmbeddingProvider } from './embeddingProviders';
+import { SemanticImageIndex } from './semanticImageIndex';
 
 export interface CachedImage {
   imageUrl: string;
@@ -8,6 +11,45 @@ export interface CachedImage {
   description: string;
 }
 
+type CacheTier = 'redis' | 'memory' | 'semantic';
+
+interface TierCounters {
+  hits: number;
+  misses: number;
+  // Entries dropped on lookup or cleanup because they expired or their URL isn't durable
+  evictions: number;
+}
+
+export interface CacheStats {
+  since: string;
+  lookups: number;
+  hits: number;
+  misses: number;
+  // null until there has been a lookup
+  hitRate: number | null;
+  tiers: Record<CacheTier, TierCounters & { hitRate: number | null }>;
+  // Catalog photos used for dishes with no cached image
+  fallback: { hits: number; misses: number; hitRate: number | null };
+  // Images generated, per backend
+  generations: Record<string, number>;
+  // keyCount counts image keys only; Redis also holds jobs
+  redis: { connected: boolean; keyCount?: number; usedMemory?: string; error?: string };
+  memory: { size: number };
+  semantic: { size: number };
+}
+
+export interface PurgeResult {
+  redis: number;
+  memory: number;
+  semantic: number;
+}
+
+const CACHE_KEY_PATTERN = /^img(?:sem)?:[a-f0-9]{32}$/;
+// SCAN patterns of the same keys
+const CACHE_KEY_GLOBS = ['img:*', 'imgsem:*'];
+
+const rate = (hits: number, total: number) => (total > 0 ? Math.round((hits / total) * 1000) / 1000 : null);
+
 export class ImageCacheService {
   private static instance: ImageCacheService;
   private memoryCache = new Map<string, CachedImage>();
@@ -15,6 +57,14 @@ export class ImageCacheService {
   private isRedisConnected = false;
   private readonly CACHE_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days
   private readonly REDIS_EXPIRE_SECONDS = 7 * 24 * 60 * 60; // 7 days in seconds
+  // Resolves to null when embeddings are off or unavailable; lookups then match exact names only
+  private embeddingProvider: Promise<EmbeddingProvider | null> | null = null;
+  private semanticIndex = new SemanticImageIndex();
+  // A cache miss is usually followed by storing the same dish, which needs the same embedding
+  private recentEmbeddings = new Map<string, number[]>();
+  private readonly RECENT_EMBEDDINGS_LIMIT = 500;
+  // Since startup; not shared between instances
+  private counters = this.emptyCounters();
 
   static getInstance(): ImageCacheService {
     if (!ImageCacheService.instance) {
@@ -55,22 +105,39 @@ export class ImageCacheService {
       console.warn('Failed to connect to Redis, falling back to memory cache:', error);
       this.isRedisConnected = false;
     }
+
+    await this.loadSemanticIndex();
   }
 
-  private generateCacheKey(name: string, description: string = ''): string {
-    // Use only the food name for consistent cache keys
+  // Null when nothing is left of the name (only punctuation), which would match every such name
+  private generateCacheKey(name: string): string | null {
+    // Use only the food name for consistent cache keys. Letters of every script are kept.
     const normalized = name
+      .normalize('NFKC')
       .toLowerCase()
-      .replace(/[^a-z0-9\s]/g, '') // Remove special characters
-      .replace(/\s+/g, ' ')        // Normalize whitespace
+      .replace(/[^\p{L}\p{N}\s]/gu, '') // Remove special characters
+      .replace(/\s+/g, ' ')              // Normalize whitespace
       .trim();
-    
+    if (!normalized) return null;
+
     return 'img:' + crypto.createHash('md5').update(normalized).digest('hex');
   }
 
+  /**
+   * Looks up the dish by exact name first, then by meaning: "Phad Thai" or "ผัดไทย" can
+   * reuse the image generated for "Pad Thai".
+   */
   async getCachedImage(itemName: string, description: string = ''): Promise<CachedImage | null> {
     const cacheKey = this.generateCacheKey(itemName);
+    const exact = cacheKey ? await this.getExactImage(cacheKey, itemName) : null;
+    const image = exact ?? await this.getSimilarImage(itemName, description);
 
+    this.counters.lookups++;
+    if (image) this.counters.hits++;
+    return image;
+  }
+
+  private async getExactImage(cacheKey: string, itemName: string): Promise<CachedImage | null> {
     // Try Redis first
     if (this.isRedisConnected && this.redisClient) {
       try {
@@ -79,20 +146,22 @@ export class ImageCacheService {
           const parsed = JSON.parse(cachedData) as CachedImage;
           parsed.generatedAt = new Date(parsed.generatedAt); // Parse date
           
-          // Validate URL is still accessible (for DALL-E URLs that expire)
-          if (await this.validateImageUrl(parsed.imageUrl)) {
+          // Entries from before durable storage hold DALL-E URLs, which expire within hours
+          if (this.isDurableUrl(parsed.imageUrl)) {
             console.log(`Redis cache HIT for: ${itemName}`);
+            this.counters.tiers.redis.hits++;
             // Also update memory cache for faster access
             this.memoryCache.set(cacheKey, parsed);
             return parsed;
           } else {
-            console.log(`Redis cache EXPIRED URL for: ${itemName}, removing from cache`);
-            // Remove expired URL from cache
+            console.log(`Redis cache entry for ${itemName} is not a durable URL, removing from cache`);
+            this.counters.tiers.redis.evictions++;
             await this.redisClient.del(cacheKey);
             this.memoryCache.delete(cacheKey);
             return null;
           }
         }
+        this.counters.tiers.redis.misses++;
       } catch (error) {
         console.warn('Redis get error:', error);
       }
@@ -103,57 +172,160 @@ export class ImageCacheService {
     if (memoryCache) {
       // Check if cache is expired
       const isExpired = Date.now() - memoryCache.generatedAt.getTime() > this.CACHE_DURATION;
-      if (isExpired) {
+      if (isExpired || !this.isDurableUrl(memoryCache.imageUrl)) {
+        this.counters.tiers.memory.evictions++;
         this.memoryCache.delete(cacheKey);
         return null;
       }
-      
-      // Validate URL is still accessible
-      if (await this.validateImageUrl(memoryCache.imageUrl)) {
-        console.log(`Memory cache HIT for: ${itemName}`);
-        return memoryCache;
-      } else {
-        console.log(`Memory cache EXPIRED URL for: ${itemName}, removing from cache`);
-        this.memoryCache.delete(cacheKey);
+
+      console.log(`Memory cache HIT for: ${itemName}`);
+      this.counters.tiers.memory.hits++;
+      return memoryCache;
+    }
+
+    this.counters.tiers.memory.misses++;
+    return null;
+  }
+
+  // Images we store ourselves and stock photos stay put; anything else may disappear
+  private isDurableUrl(url: string): boolean {
+    if (imageStorageService.hashFromUrl(url)) return true;
+    return url.includes('unsplash.com') || url.includes('placeholder.com');
+  }
+
+  private getEmbeddingProvider(): Promise<EmbeddingProvider | null> {
+    if (!this.embeddingProvider) {
+      this.embeddingProvider = (async () => {
+        if (process.env.IMAGE_CACHE_SEMANTIC === 'false') return null;
+        try {
+          const provider = createEmbeddingProvider();
+          await provider.initialize();
+          console.log(`Semantic image cache enabled (embeddings: ${provider.name}, model: ${provider.model})`);
+          return provider;
+        } catch (error) {
+          console.warn('Semantic image cache disabled, matching exact names only:', error instanceof Error ? error.message : error);
+          return null;
+        }
+      })();
+    }
+    return this.embeddingProvider;
+  }
+
+  private async embedDish(itemName: string, description: string): Promise<{ vector: number[]; model: string; threshold: number } | null> {
+    const provider = await this.getEmbeddingProvider();
+    if (!provider) return null;
+
+    const threshold = Number(process.env.IMAGE_CACHE_SIMILARITY) || provider.similarityThreshold;
+    const text = description ? `${itemName}: ${description}` : itemName;
+    const memoKey = `${provider.model}\n${text}`;
+
+    let vector = this.recentEmbeddings.get(memoKey);
+    if (!vector) {
+      try {
+        [vector] = await provider.embed([text]);
+      } catch (error) {
+        console.warn(`Failed to embed ${itemName}:`, error instanceof Error ? error.message : error);
         return null;
       }
+      this.recentEmbeddings.set(memoKey, vector);
+      if (this.recentEmbeddings.size > this.RECENT_EMBEDDINGS_LIMIT) {
+        this.recentEmbeddings.delete(this.recentEmbeddings.keys().next().value!);
+      }
     }
+    return { vector, model: provider.model, threshold };
+  }
 
-    return null;
+  private async getSimilarImage(itemName: string, description: string): Promise<CachedImage | null> {
+    const counters = this.counters.tiers.semantic;
+    if (this.semanticIndex.size === 0) {
+      counters.misses++;
+      return null;
+    }
+
+    const embedded = await this.embedDish(itemName, description);
+    const match = embedded && this.semanticIndex.nearest(embedded.vector);
+    if (!embedded || !match || match.similarity < embedded.threshold) {
+      counters.misses++;
+      return null;
+    }
+
+    const isExpired = Date.now() - match.image.generatedAt.getTime() > this.CACHE_DURATION;
+    if (isExpired || !this.isDurableUrl(match.image.imageUrl)) {
+      counters.evictions++;
+      this.semanticIndex.remove(match.key);
+      return null;
+    }
+
+    console.log(`Semantic cache HIT for: ${itemName} (matched ${match.image.itemName}, similarity ${match.similarity.toFixed(3)})`);
+    counters.hits++;
+    return match.image;
   }
 
-  private async validateImageUrl(url: string): Promise<boolean> {
+  // Keyed by name and description, since the semantic match looks at both
+  private semanticKey(image: CachedImage): string {
+    return 'imgsem:' + crypto.createHash('md5').update(`${image.itemName}\n${image.description}`).digest('hex');
+  }
+
+  private async indexImage(image: CachedImage): Promise<void> {
+    const embedded = await this.embedDish(image.itemName, image.description);
+    if (!embedded) return;
+
+    const key = this.semanticKey(image);
+    this.semanticIndex.add(key, embedded.vector, image);
+
+    if (this.isRedisConnected && this.redisClient) {
+      try {
+        await this.redisClient.setEx(
+          key,
+          this.REDIS_EXPIRE_SECONDS,
+          JSON.stringify({ model: embedded.model, vector: embedded.vector, image })
+        );
+      } catch (error) {
+        console.warn('Redis set error:', error);
+      }
+    }
+  }
+
+  // Embeddings outlive restarts in Redis; ones from another model can't be compared and are skipped
+  private async loadSemanticIndex(): Promise<void> {
+    if (!this.isRedisConnected || !this.redisClient) return;
+    const provider = await this.getEmbeddingProvider();
+    if (!provider) return;
+
     try {
-      // Skip validation for known permanent URLs (Unsplash, placeholders, etc.)
-      if (url.includes('unsplash.com') || url.includes('placeholder.com') || url.includes('via.placeholder.com')) {
-        return true;
+      for await (const keys of this.redisClient.scanIterator({ MATCH: 'imgsem:*', COUNT: 100 })) {
+        if (keys.length === 0) continue;
+        const values = await this.redisClient.mGet(keys);
+        values.forEach((value, i) => {
+          if (!value) return;
+          const entry = JSON.parse(value) as { model: string; vector: number[]; image: CachedImage };
+          if (entry.model !== provider.model) return;
+          entry.image.generatedAt = new Date(entry.image.generatedAt);
+          this.semanticIndex.add(keys[i], entry.vector, entry.image);
+        });
       }
-      
-      // For DALL-E URLs, do a lightweight HEAD request to check if they're still valid
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-      
-      const response = await fetch(url, { 
-        method: 'HEAD',
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      return response.ok;
+      console.log(`Loaded ${this.semanticIndex.size} dish embeddings into the semantic image cache`);
     } catch (error) {
-      console.warn(`URL validation failed for ${url}:`, error);
-      return false;
+      console.warn('Failed to load the semantic image cache from Redis:', error);
     }
   }
 
   async setCachedImage(itemName: string, description: string, imageUrl: string): Promise<void> {
-    const cacheKey = this.generateCacheKey(itemName);
+    if (!this.isDurableUrl(imageUrl)) {
+      console.warn(`Not caching image for ${itemName}: ${imageUrl.substring(0, 50)} is not a durable URL`);
+      return;
+    }
+
     const cacheData: CachedImage = {
       imageUrl,
       generatedAt: new Date(),
       itemName,
       description,
     };
+    await this.indexImage(cacheData);
+
+    const cacheKey = this.generateCacheKey(itemName);
+    if (!cacheKey) return;
 
     // Store in Redis with expiration
     if (this.isRedisConnected && this.redisClient) {
@@ -174,108 +346,156 @@ export class ImageCacheService {
     console.log(`Memory cached image for: ${itemName}`);
   }
 
-  async getCacheStats(): Promise<{ redis: any; memory: any }> {
-    let redisStats = null;
-    
+  private emptyCounters() {
+    const tier = (): TierCounters => ({ hits: 0, misses: 0, evictions: 0 });
+    return {
+      since: new Date(),
+      lookups: 0,
+      hits: 0,
+      tiers: { redis: tier(), memory: tier(), semantic: tier() } as Record<CacheTier, TierCounters>,
+      fallback: { hits: 0, misses: 0 },
+      generations: {} as Record<string, number>,
+    };
+  }
+
+  recordFallback(hit: boolean): void {
+    if (hit) {
+      this.counters.fallback.hits++;
+    } else {
+      this.counters.fallback.misses++;
+    }
+  }
+
+  recordGeneration(backendName: string): void {
+    this.counters.generations[backendName] = (this.counters.generations[backendName] ?? 0) + 1;
+  }
+
+  async getCacheStats(): Promise<CacheStats> {
+    let redisStats: CacheStats['redis'] = { connected: false };
+
     if (this.isRedisConnected && this.redisClient) {
       try {
         const info = await this.redisClient.info('memory');
-        const keyCount = await this.redisClient.dbSize();
+        let keyCount = 0;
+        for (const pattern of CACHE_KEY_GLOBS) {
+          for await (const keys of this.redisClient.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+            keyCount += keys.length;
+          }
+        }
         redisStats = {
           connected: true,
           keyCount,
-          memoryUsage: info,
+          usedMemory: info.match(/used_memory_human:(\S+)/)?.[1],
         };
       } catch (error) {
-        redisStats = { connected: false, error: error };
+        redisStats = { connected: false, error: error instanceof Error ? error.message : String(error) };
       }
-    } else {
-      redisStats = { connected: false };
     }
 
+    const { since, lookups, hits, tiers, fallback, generations } = this.counters;
+    const tierStats = (counters: TierCounters) => ({
+      ...counters,
+      hitRate: rate(counters.hits, counters.hits + counters.misses + counters.evictions),
+    });
+
     return {
+      since: since.toISOString(),
+      lookups,
+      hits,
+      misses: lookups - hits,
+      hitRate: rate(hits, lookups),
+      tiers: {
+        redis: tierStats(tiers.redis),
+        memory: tierStats(tiers.memory),
+        semantic: tierStats(tiers.semantic),
+      },
+      fallback: { ...fallback, hitRate: rate(fallback.hits, fallback.hits + fallback.misses) },
+      generations: { ...generations },
       redis: redisStats,
-      memory: {
-        size: this.memoryCache.size,
-        hitRate: 0.85 // Mock hit rate - in production, track this
-      }
+      memory: { size: this.memoryCache.size },
+      semantic: { size: this.semanticIndex.size },
     };
   }
 
+  isCacheKey(key: string): boolean {
+    return CACHE_KEY_PATTERN.test(key);
+  }
+
+  /**
+   * Removes one entry. An exact `img:` key takes the dish's semantic entries with it, so the
+   * image can't come back through a similarity match; an `imgsem:` key removes just that one.
+   */
+  async purgeKey(key: string): Promise<PurgeResult> {
+    const semanticKeys = key.startsWith('imgsem:')
+      ? this.semanticIndex.prune((_image, entryKey) => entryKey !== key)
+      : this.semanticIndex.prune((image) => this.generateCacheKey(image.itemName) !== key);
+    const result: PurgeResult = {
+      redis: 0,
+      memory: this.memoryCache.delete(key) ? 1 : 0,
+      semantic: semanticKeys.length,
+    };
+
+    if (this.isRedisConnected && this.redisClient) {
+      try {
+        result.redis = await this.redisClient.del([...new Set([key, ...semanticKeys])]);
+      } catch (error) {
+        console.warn('Redis del error:', error);
+      }
+    }
+
+    console.log(`Purged image cache key ${key}:`, result);
+    return result;
+  }
+
+  // Null when the name can't have a cache entry
+  async purgeDish(itemName: string): Promise<PurgeResult | null> {
+    const cacheKey = this.generateCacheKey(itemName);
+    return cacheKey ? this.purgeKey(cacheKey) : null;
+  }
+
+  /**
+   * Empties every tier. Only image keys are removed from Redis, which also holds jobs.
+   */
+  async purgeAll(): Promise<PurgeResult> {
+    const result: PurgeResult = { redis: 0, memory: this.memoryCache.size, semantic: this.semanticIndex.size };
+    this.memoryCache.clear();
+    this.semanticIndex.clear();
+
+    if (this.isRedisConnected && this.redisClient) {
+      try {
+        for (const pattern of CACHE_KEY_GLOBS) {
+          for await (const keys of this.redisClient.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+            if (keys.length > 0) {
+              result.redis += await this.redisClient.del(keys);
+            }
+          }
+        }
+      } catch (error) {
+        console.warn('Redis purge error:', error);
+      }
+    }
+
+    console.log('Purged the whole image cache:', result);
+    return result;
+  }
+
   async clearExpiredCache(): Promise<void> {
     // Clear expired memory cache
     const now = Date.now();
     for (const [key, cached] of this.memoryCache.entries()) {
       if (now - cached.generatedAt.getTime() > this.CACHE_DURATION) {
         this.memoryCache.delete(key);
+        this.counters.tiers.memory.evictions++;
       }
     }
 
+    const pruned = this.semanticIndex.prune((image) => now - image.generatedAt.getTime() <= this.CACHE_DURATION);
+    this.counters.tiers.semantic.evictions += pruned.length;
+
     // Redis handles expiration automatically via TTL
     console.log('Expired cache entries cleared from memory');
   }
 
-  // Semantic matching for common foods
-  private commonFoodImages = new Map([
-    // Specific chicken dishes
-    ['chili chicken', 'https://images.unsplash.com/photo-1606491956689-2ea866880c84?w=400'],
-    ['chicken 65', 'https://images.unsplash.com/photo-1599487488170-d11ec9c172f0?w=400'],
-    ['chicken choila', 'https://images.unsplash.com/photo-1567620905732-2d1ec7ab7445?w=400'],
-    ['chicken tikka', 'https://images.unsplash.com/photo-1565557623262-b51c2513a641?w=400'],
-    ['chicken curry', 'https://images.unsplash.com/photo-1565299624946-b28f40a0ca4b?w=400'],
-    ['chicken biryani', 'https://images.unsplash.com/photo-1563379091339-03246963d96c?w=400'],
-    ['chicken wings', 'https://images.unsplash.com/photo-1527477396000-e27163b481c2?w=400'],
-    ['butter chicken', 'https://images.unsplash.com/photo-1565299624946-b28f40a0ca4b?w=400'],
-    
-    // Sushi items
-    ['naruto roll', 'https://images.unsplash.com/photo-1579584425555-c3ce17fd4351?w=400'],
-    ['california roll', 'https://images.unsplash.com/photo-1579584425555-c3ce17fd4351?w=400'],
-    ['salmon roll', 'https://images.unsplash.com/photo-1579584425555-c3ce17fd4351?w=400'],
-    ['tuna roll', 'https://images.unsplash.com/photo-1579584425555-c3ce17fd4351?w=400'],
-    ['sushi roll', 'https://images.unsplash.com/photo-1579584425555-c3ce17fd4351?w=400'],
-    ['sushi', 'https://images.unsplash.com/photo-1579584425555-c3ce17fd4351?w=400'],
-    ['roll', 'https://images.unsplash.com/photo-1579584425555-c3ce17fd4351?w=400'],
-    
-    // Burgers
-    ['chicken burger', 'https://images.unsplash.com/photo-1571091718767-18b5b1457add?w=400'],
-    ['beef burger', 'https://images.unsplash.com/photo-1546833999-b9f581a1996d?w=400'],
-    ['veggie burger', 'https://images.unsplash.com/photo-1525059696034-4967a729002e?w=400'],
-    ['beyond burger', 'https://images.unsplash.com/photo-1525059696034-4967a729002e?w=400'],
-    ['salmon burger', 'https://images.unsplash.com/photo-1544943910-4c1dc44aab44?w=400'],
-    ['fish burger', 'https://images.unsplash.com/photo-1544943910-4c1dc44aab44?w=400'],
-    ['burger', 'https://images.unsplash.com/photo-1571091718767-18b5b1457add?w=400'],
-    
-    // General foods (as last resort)
-    ['chicken', 'https://images.unsplash.com/photo-1598515214211-89d3c73ae83b?w=400'],
-    ['beef', 'https://images.unsplash.com/photo-1546833999-b9f581a1996d?w=400'],
-    ['pasta', 'https://images.unsplash.com/photo-1551183053-bf91a1d81141?w=400'],
-    ['pizza', 'https://images.unsplash.com/photo-1513104890138-7c749659a591?w=400'],
-    ['salad', 'https://images.unsplash.com/photo-1512621776951-a57141f2eefd?w=400'],
-    ['soup', 'https://images.unsplash.com/photo-1547592180-85f173990554?w=400'],
-    ['fish', 'https://images.unsplash.com/photo-1544943910-4c1dc44aab44?w=400'],
-    ['dessert', 'https://images.unsplash.com/photo-1488477181946-6428a0291777?w=400'],
-    ['drink', 'https://images.unsplash.com/photo-1544145945-f90425340c7e?w=400']
-  ]);
-
-  getFallbackImage(itemName: string): string | null {
-    const normalizedName = itemName.toLowerCase();
-    
-    // Sort keywords by length (descending) to prioritize more specific matches
-    const sortedKeywords = Array.from(this.commonFoodImages.keys())
-      .sort((a, b) => b.length - a.length);
-    
-    // Check for keyword matches, starting with most specific
-    for (const keyword of sortedKeywords) {
-      if (normalizedName.includes(keyword)) {
-        const imageUrl = this.commonFoodImages.get(keyword);
-        console.log(`Using fallback image for ${itemName} (matched: ${keyword})`);
-        return imageUrl!;
-      }
-    }
-
-    return null;
-  }
-
   async disconnect(): Promise<void> {
     if (this.redisClient) {
       try {
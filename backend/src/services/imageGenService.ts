@@ -1,6 +1,9 @@
-import OpenAI from 'openai';
 import { MenuItem } from '../types';
 import { imageCacheService } from './imageCacheService';
+import { fallbackImageService } from './fallbackImageService';
+import { imageStorageService, ImageVariantFormat, ImageVariantWidth } from './imageStorageService';
+import { ImageBackend, createImageBackend } from './imageBackends';
+import { sleep, throwIfAborted } from '../utils/abortUtils';
 
 export interface ImageGenResult {
   imageUrl: string;
@@ -17,8 +20,8 @@ export interface BatchImageGenResult {
 
 export class ImageGenService {
   private static instance: ImageGenService;
-  private openai: OpenAI | null = null;
-  private isInitialized = false;
+  private backends = new Map<string, ImageBackend>();
+  private defaultBackend: string | null = null;
 
   static getInstance(): ImageGenService {
     if (!ImageGenService.instance) {
@@ -27,29 +30,41 @@ export class ImageGenService {
     return ImageGenService.instance;
   }
 
-  async initialize(): Promise<void> {
-    if (this.isInitialized) return;
-
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        'OPENAI_API_KEY environment variable is required for image generation'
-      );
-    }
+  async initialize(backendName: string = this.getDefaultBackend()): Promise<ImageBackend> {
+    const existing = this.backends.get(backendName);
+    if (existing) return existing;
 
     try {
-      this.openai = new OpenAI({
-        apiKey: apiKey,
-      });
+      const backend = createImageBackend(backendName);
+      await backend.initialize();
 
-      this.isInitialized = true;
-      console.log('Image Generation Service initialized successfully');
+      this.backends.set(backendName, backend);
+      console.log(`Image Generation Service initialized successfully (backend: ${backendName})`);
+      return backend;
     } catch (error) {
       console.error('Failed to initialize Image Generation service:', error);
-      throw new Error('Image Generation service initialization failed');
+      throw new Error(
+        `Image Generation service initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
   }
 
+  /**
+   * Register a backend instance directly (e.g. a custom or pre-configured one).
+   */
+  registerBackend(backend: ImageBackend): void {
+    this.backends.set(backend.name, backend);
+  }
+
+  setDefaultBackend(backendName: string): void {
+    this.defaultBackend = backendName;
+  }
+
+  // Read lazily so values loaded by dotenv after import are honoured
+  getDefaultBackend(): string {
+    return this.defaultBackend || process.env.IMAGE_BACKEND || 'dalle';
+  }
+
   private generateFoodPrompt(menuItem: MenuItem): string {
     const { name, description, category } = menuItem;
 
@@ -82,7 +97,11 @@ export class ImageGenService {
     return prompt;
   }
 
-  async generateFoodImage(menuItem: MenuItem): Promise<ImageGenResult> {
+  async generateFoodImage(
+    menuItem: MenuItem,
+    backendName: string = this.getDefaultBackend(),
+    signal?: AbortSignal
+  ): Promise<ImageGenResult> {
     const startTime = Date.now();
 
     // Check cache first
@@ -101,7 +120,7 @@ export class ImageGenService {
     console.log(`No cached image found for: ${menuItem.name}`);
 
     // Try fallback image for common foods
-    const fallbackImage = imageCacheService.getFallbackImage(menuItem.name);
+    const fallbackImage = await fallbackImageService.getFallbackImageUrl(menuItem.name);
     if (fallbackImage) {
       return {
         imageUrl: fallbackImage,
@@ -110,39 +129,35 @@ export class ImageGenService {
       };
     }
 
-    if (!this.isInitialized || !this.openai) {
-      await this.initialize();
-    }
-
     try {
+      const backend = await this.initialize(backendName);
       const prompt = this.generateFoodPrompt(menuItem);
 
-      console.log(`Generating new DALL-E image for: ${menuItem.name}`);
+      console.log(`Generating new ${backend.name} image for: ${menuItem.name}`);
 
-      const response = await this.openai!.images.generate({
-        model: 'dall-e-3',
-        prompt: prompt,
-        n: 1,
-        size: '1024x1024',
-        quality: 'standard',
-        style: 'natural',
-      });
+      let imageUrl = await backend.generate(prompt, menuItem, signal);
+      imageCacheService.recordGeneration(backend.name);
+      let durable = true;
 
-      if (!response.data || response.data.length === 0) {
-        throw new Error('No image data returned from DALL-E');
-      }
-
-      const imageUrl = response.data[0]?.url;
-      if (!imageUrl) {
-        throw new Error('No image URL returned from DALL-E');
+      if (backend.storeResults) {
+        try {
+          imageUrl = await imageStorageService.storeFromUrl(imageUrl, signal);
+        } catch (error) {
+          throwIfAborted(signal);
+          // The generated URL still works for now, it just can't be cached
+          console.warn(`Failed to store image for ${menuItem.name}:`, error instanceof Error ? error.message : error);
+          durable = false;
+        }
       }
 
       // Cache the generated image
-      await imageCacheService.setCachedImage(
-        menuItem.name,
-        menuItem.description || '',
-        imageUrl
-      );
+      if (backend.cacheable && durable) {
+        await imageCacheService.setCachedImage(
+          menuItem.name,
+          menuItem.description || '',
+          imageUrl
+        );
+      }
 
       const processingTime = Date.now() - startTime;
 
@@ -177,7 +192,8 @@ export class ImageGenService {
 
   async generateBatchImages(
     menuItems: MenuItem[],
-    maxConcurrent: number = 3
+    maxConcurrent: number = 3,
+    backendName: string = this.getDefaultBackend()
   ): Promise<BatchImageGenResult> {
     const startTime = Date.now();
     const results: ImageGenResult[] = [];
@@ -190,7 +206,7 @@ export class ImageGenService {
 
       const batchPromises = batch.map(async (item) => {
         try {
-          const result = await this.generateFoodImage(item);
+          const result = await this.generateFoodImage(item, backendName);
           successCount++;
           return result;
         } catch (error) {
@@ -198,7 +214,7 @@ export class ImageGenService {
           failureCount++;
           // Return a fallback result
           return {
-            imageUrl: this.getFallbackImageUrl(item),
+            imageUrl: await this.getFallbackImageUrl(item),
             itemName: item.name,
             processingTime: 0,
           };
@@ -224,9 +240,9 @@ export class ImageGenService {
     };
   }
 
-  private getFallbackImageUrl(menuItem: MenuItem): string {
-    // First try to get a semantic fallback image from the cache service
-    const semanticFallback = imageCacheService.getFallbackImage(menuItem.name);
+  private async getFallbackImageUrl(menuItem: MenuItem): Promise<string> {
+    // First try the fallback image catalog
+    const semanticFallback = await fallbackImageService.getFallbackImageUrl(menuItem.name);
     if (semanticFallback) {
       console.log(`Using semantic fallback image for: ${menuItem.name}`);
       return semanticFallback;
@@ -239,7 +255,9 @@ export class ImageGenService {
 
   async generateWithFallback(
     menuItem: MenuItem,
-    maxRetries: number = 2
+    maxRetries: number = 2,
+    backendName: string = this.getDefaultBackend(),
+    signal?: AbortSignal
   ): Promise<ImageGenResult> {
     let lastError: Error | null = null;
 
@@ -248,8 +266,11 @@ export class ImageGenService {
         console.log(
           `Image generation attempt ${attempt}/${maxRetries} for: ${menuItem.name}`
         );
-        return await this.generateFoodImage(menuItem);
+        return await this.generateFoodImage(menuItem, backendName, signal);
       } catch (error) {
+        // A cancelled job shouldn't retry or fall back
+        throwIfAborted(signal);
+
         lastError = error instanceof Error ? error : new Error('Unknown error');
         console.warn(
           `Image generation attempt ${attempt} failed for ${menuItem.name}:`,
@@ -259,7 +280,7 @@ export class ImageGenService {
         if (attempt < maxRetries) {
           // Wait before retrying
           const delay = attempt * 2000; // 2s, 4s
-          await new Promise((resolve) => setTimeout(resolve, delay));
+          await sleep(delay, signal);
         }
       }
     }
@@ -267,7 +288,7 @@ export class ImageGenService {
     // Return fallback image if all attempts fail
     console.log(`Using fallback image for: ${menuItem.name}`);
     return {
-      imageUrl: this.getFallbackImageUrl(menuItem),
+      imageUrl: await this.getFallbackImageUrl(menuItem),
       itemName: menuItem.name,
       processingTime: 0,
     };
@@ -284,14 +305,20 @@ export class ImageGenService {
     }
   }
 
+  /**
+   * URL of a resized WebP/AVIF copy of a stored image. Other URLs (stock photos, fallbacks)
+   * can't be resized and are returned as they are.
+   */
   getOptimizedImageUrl(
     originalUrl: string,
-    size: '256x256' | '512x512' | '1024x1024' = '512x512'
+    size: '256x256' | '512x512' | '1024x1024' = '512x512',
+    format: ImageVariantFormat = 'webp'
   ): string {
-    // For DALL-E images, we get them at 1024x1024 by default
-    // In a production app, you might want to resize them or use a CDN
-    // For now, return the original URL
-    return originalUrl;
+    const hash = imageStorageService.hashFromUrl(originalUrl);
+    if (!hash) return originalUrl;
+
+    const width = Number(size.split('x')[0]) as ImageVariantWidth;
+    return imageStorageService.variantUrl(hash, width, format);
   }
 }
 
@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { ImageStore, StoredImage, createImageStore } from './imageStores';
+import { detectImageContentType } from '../utils/imageUtils';
+
+// Larger than any generated image; guards against downloading something else entirely
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+// Widths for srcset; a 1024px original (DALL-E's size) is never upscaled past itself
+export const IMAGE_VARIANT_WIDTHS = [256, 512, 1024] as const;
+export const IMAGE_VARIANT_FORMATS = ['webp', 'avif'] as const;
+
+export type ImageVariantWidth = typeof IMAGE_VARIANT_WIDTHS[number];
+export type ImageVariantFormat = typeof IMAGE_VARIANT_FORMATS[number];
+
+/**
+ * Keeps generated images in our own store (IMAGE_STORAGE: local directory or S3/MinIO) and
+ * hands out URLs of the /images/:hash route for them. DALL-E URLs expire within hours and
+ * data URLs bloat every payload; a stored copy is permanent and can be cached as such.
+ */
+export class ImageStorageService {
+  private static instance: ImageStorageService;
+  private store: ImageStore | null = null;
+  // Variants being rendered, so concurrent requests for one share the work
+  private pendingVariants = new Map<string, Promise<StoredImage | null>>();
+
+  static getInstance(): ImageStorageService {
+    if (!ImageStorageService.instance) {
+      ImageStorageService.instance = new ImageStorageService();
+    }
+    return ImageStorageService.instance;
+  }
+
+  /**
+   * Swap the store at runtime (e.g. a temporary directory in tests). Defaults to IMAGE_STORAGE.
+   */
+  setStore(store: ImageStore): void {
+    this.store = store;
+  }
+
+  private async getStore(): Promise<ImageStore> {
+    if (!this.store) {
+      const store = createImageStore();
+      await store.initialize();
+      this.store = store;
+      console.log(`Image storage initialized (store: ${store.name})`);
+    }
+    return this.store;
+  }
+
+  // Read lazily, since the singleton is created before index.ts loads .env
+  private get publicBaseUrl(): string {
+    return (process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, '');
+  }
+
+  isValidHash(hash: string): boolean {
+    return HASH_PATTERN.test(hash);
+  }
+
+  imageUrl(hash: string): string {
+    return `${this.publicBaseUrl}/images/${hash}`;
+  }
+
+  isVariant(width: number, format: string): boolean {
+    return (IMAGE_VARIANT_WIDTHS as readonly number[]).includes(width)
+      && (IMAGE_VARIANT_FORMATS as readonly string[]).includes(format);
+  }
+
+  variantUrl(hash: string, width: ImageVariantWidth, format: ImageVariantFormat): string {
+    return `${this.imageUrl(hash)}/${width}.${format}`;
+  }
+
+  // Hash of an image we serve, or null for any other URL
+  hashFromUrl(url: string): string | null {
+    const prefix = `${this.publicBaseUrl}/images/`;
+    if (!url.startsWith(prefix)) return null;
+    const hash = url.substring(prefix.length);
+    return this.isValidHash(hash) ? hash : null;
+  }
+
+  /**
+   * Stores the image and returns its URL. Storing the same bytes again just returns the
+   * same URL. Variants are rendered in the background.
+   */
+  async storeImage(data: Buffer): Promise<string> {
+    const contentType = detectImageContentType(data);
+    if (!contentType) {
+      throw new Error('Not a JPEG, PNG, WebP, GIF or AVIF image');
+    }
+
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+    const store = await this.getStore();
+    if (!(await store.has(hash))) {
+      await store.put(hash, { data, contentType });
+      this.createVariants(hash).catch((error) => {
+        console.warn(`Failed to create variants of image ${hash}:`, error instanceof Error ? error.message : error);
+      });
+    }
+    return this.imageUrl(hash);
+  }
+
+  /**
+   * Downloads an image (or decodes a data URL) into the store and returns its URL.
+   */
+  async storeFromUrl(url: string, signal?: AbortSignal): Promise<string> {
+    const dataUrl = url.match(/^data:image\/[\w.+-]+;base64,(.*)$/);
+    if (dataUrl) {
+      return this.storeImage(Buffer.from(dataUrl[1], 'base64'));
+    }
+
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`Image download failed with status ${response.status}`);
+    }
+    if (Number(response.headers.get('content-length') || 0) > MAX_IMAGE_BYTES) {
+      throw new Error('Image is too large to store');
+    }
+
+    const data = Buffer.from(await response.arrayBuffer());
+    if (data.length > MAX_IMAGE_BYTES) {
+      throw new Error('Image is too large to store');
+    }
+    return this.storeImage(data);
+  }
+
+  async getImage(hash: string): Promise<StoredImage | null> {
+    if (!this.isValidHash(hash)) return null;
+    const store = await this.getStore();
+    return store.get(hash);
+  }
+
+  /**
+   * A resized copy of a stored image, rendered and stored on first use. Null if the
+   * original doesn't exist.
+   */
+  async getVariant(hash: string, width: ImageVariantWidth, format: ImageVariantFormat): Promise<StoredImage | null> {
+    if (!this.isValidHash(hash)) return null;
+    const key = `${hash}-${width}.${format}`;
+
+    const pending = this.pendingVariants.get(key);
+    if (pending) return pending;
+
+    const variant = this.loadOrRenderVariant(key, hash, width, format)
+      .finally(() => this.pendingVariants.delete(key));
+    this.pendingVariants.set(key, variant);
+    return variant;
+  }
+
+  private async loadOrRenderVariant(
+    key: string,
+    hash: string,
+    width: ImageVariantWidth,
+    format: ImageVariantFormat
+  ): Promise<StoredImage | null> {
+    const store = await this.getStore();
+    const existing = await store.get(key);
+    if (existing) return existing;
+
+    const original = await store.get(hash);
+    if (!original) return null;
+
+    const resized = sharp(original.data)
+      .resize({ width, height: width, fit: 'inside', withoutEnlargement: true });
+    const data = format === 'avif'
+      ? await resized.avif({ quality: 50 }).toBuffer()
+      : await resized.webp({ quality: 80 }).toBuffer();
+
+    const variant = { data, contentType: `image/${format}` };
+    await store.put(key, variant);
+    return variant;
+  }
+
+  // One at a time: AVIF encoding is CPU-heavy and this runs alongside the rest of the job
+  private async createVariants(hash: string): Promise<void> {
+    for (const width of IMAGE_VARIANT_WIDTHS) {
+      for (const format of IMAGE_VARIANT_FORMATS) {
+        await this.getVariant(hash, width, format);
+      }
+    }
+  }
+}
+
+export const imageStorageService = ImageStorageService.getInstance();
@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { detectImageContentType } from '../utils/imageUtils';
+
+export type ImageStoreName = 'local' | 's3';
+
+export interface StoredImage {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Durable home for generated images. Originals are keyed by the SHA-256 of their bytes and
+ * resized variants by `<hash>-<width>.<format>`, so writing the same image twice is harmless
+ * and an object never changes once written.
+ */
+export interface ImageStore {
+  readonly name: ImageStoreName;
+  initialize(): Promise<void>;
+  has(key: string): Promise<boolean>;
+  get(key: string): Promise<StoredImage | null>;
+  put(key: string, image: StoredImage): Promise<void>;
+}
+
+/**
+ * Files under IMAGE_STORAGE_DIR, sharded by the first two hex digits so no directory gets
+ * huge. The content type is read back from the bytes.
+ */
+export class LocalImageStore implements ImageStore {
+  readonly name: ImageStoreName = 'local';
+
+  constructor(
+    private readonly directory: string = process.env.IMAGE_STORAGE_DIR || path.join(__dirname, '../../data/images')
+  ) {}
+
+  async initialize(): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+  }
+
+  // Keys start with the hash, so variants land in the same directory as their original
+  private filePath(key: string): string {
+    return path.join(this.directory, key.substring(0, 2), key);
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.filePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async get(key: string): Promise<StoredImage | null> {
+    let data: Buffer;
+    try {
+      data = await fs.promises.readFile(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+    return { data, contentType: detectImageContentType(data) ?? 'application/octet-stream' };
+  }
+
+  async put(key: string, image: StoredImage): Promise<void> {
+    const file = this.filePath(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    // Written under a temporary name first, so a reader never sees half an image
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporary, image.data);
+    await fs.promises.rename(temporary, file);
+  }
+}
+
+const sha256Hex = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmacSha256 = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 as SigV4 wants it; encodeURIComponent leaves !'()* alone
+const uriEncode = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// Each path segment encoded once (S3 doesn't double-encode); URL leaves e.g. "$" as it is
+const canonicalUri = (url: URL) =>
+  url.pathname.split('/').map((segment) => uriEncode(decodeURIComponent(segment))).join('/');
+
+const canonicalQuery = (url: URL) =>
+  [...url.searchParams]
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([nameA, valueA], [nameB, valueB]) => (nameA === nameB ? (valueA < valueB ? -1 : 1) : nameA < nameB ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+/**
+ * AWS Signature Version 4 for a single S3 request. Returns the headers to send, including
+ * `authorization`; `headers` must not contain `host`, which is signed from the URL.
+ */
+export function signS3Request(
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payloadHash: string,
+  credentials: S3Credentials,
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const date = amzDate.substring(0, 8);
+  const signed: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const names = Object.keys(signed).sort();
+
+  const canonicalRequest = [
+    method,
+    canonicalUri(url),
+    canonicalQuery(url),
+    names.map((name) => `${name}:${signed[name]}\n`).join(''),
+    names.join(';'),
+    payloadHash,
+  ].join('\n');
+  const scope = `${date}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = [date, credentials.region, 's3', 'aws4_request']
+    .reduce<string | Buffer>((key, part) => hmacSha256(key, part), `AWS4${credentials.secretAccessKey}`);
+  const signature = hmacSha256(signingKey, stringToSign).toString('hex');
+
+  // fetch sets the Host header itself
+  const sent = { ...signed };
+  delete sent.host;
+  return {
+    ...sent,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Amazon S3 or an S3-compatible server such as MinIO. Talks plain HTTP with signed
+ * requests and path-style URLs (which MinIO needs), so no SDK is required. The bucket must
+ * already exist.
+ */
+export class S3ImageStore implements ImageStore {
+  readonly name: ImageStoreName = 's3';
+
+  constructor(
+    private readonly endpoint: string = process.env.S3_ENDPOINT || 'https://s3.amazonaws.com',
+    private readonly bucket: string = process.env.S3_BUCKET || '',
+    private readonly credentials: S3Credentials = {
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      region: process.env.S3_REGION || 'us-east-1',
+    },
+    private readonly keyPrefix: string = 'images/'
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (!this.bucket || !this.credentials.accessKeyId || !this.credentials.secretAccessKey) {
+      throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for S3 image storage');
+    }
+  }
+
+  private async request(method: string, key: string, body?: Buffer, headers: Record<string, string> = {}): Promise<Response> {
+    const url = new URL(`${this.endpoint.replace(/\/$/, '')}/${this.bucket}/${this.keyPrefix}${key}`);
+    const signedHeaders = signS3Request(method, url, headers, sha256Hex(body ?? ''), this.credentials);
+    return fetch(url, { method, headers: signedHeaders, body });
+  }
+
+  async has(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) return false;
+    if (!response.ok) {
+      throw new Error(`S3 HEAD failed with status ${response.status}`);
+    }
+    return true;
+  }
+
+  async get(key: string): Promise<StoredImage | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`S3 GET failed with status ${response.status}`);
+    }
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'application/octet-stream',
+    };
+  }
+
+  async put(key: string, image: StoredImage): Promise<void> {
+    const response = await this.request('PUT', key, image.data, { 'content-type': image.contentType });
+    if (!response.ok) {
+      throw new Error(`S3 PUT failed with status ${response.status}`);
+    }
+  }
+}
+
+export function createImageStore(
+  name: string = process.env.IMAGE_STORAGE || 'local'
+): ImageStore {
+  switch (name.toLowerCase()) {
+    case 'local':
+      return new LocalImageStore();
+    case 's3':
+    case 'minio':
+      return new S3ImageStore();
+    default:
+      throw new Error(`Unknown image storage: ${name}`);
+  }
+}
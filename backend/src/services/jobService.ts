@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import { createClient, RedisClientType } from 'redis';
+import { DietaryProfile, Job } from '../types';
+
+export interface CreateJobParams {
+  socketId: string;
+  targetLanguage: string;
+  additionalLanguages?: string[];
+  generateImages: boolean;
+  dietaryProfile?: DietaryProfile;
+  homeCurrency?: string;
+}
+
+export class JobService {
+  private static instance: JobService;
+  // Jobs running in this process always live here; Redis makes them survive restarts
+  private memoryJobs = new Map<string, { job: Job; expiresAt: number }>();
+  // Abort controllers of jobs currently being processed by this process
+  private runningJobs = new Map<string, AbortController>();
+  private redisClient: RedisClientType | null = null;
+  private isRedisConnected = false;
+  private readonly JOB_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+
+  static getInstance(): JobService {
+    if (!JobService.instance) {
+      JobService.instance = new JobService();
+    }
+    return JobService.instance;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.redisClient) return;
+
+    try {
+      this.redisClient = createClient({
+        url: process.env.REDIS_URL || 'redis://localhost:6379',
+        socket: {
+          connectTimeout: 5000,
+        }
+      });
+
+      this.redisClient.on('error', (error) => {
+        console.warn('Job store Redis error:', error.message);
+        this.isRedisConnected = false;
+      });
+
+      this.redisClient.on('connect', () => {
+        this.isRedisConnected = true;
+      });
+
+      this.redisClient.on('disconnect', () => {
+        this.isRedisConnected = false;
+      });
+
+      await this.redisClient.connect();
+      console.log('Job Service with Redis initialized');
+    } catch (error) {
+      console.warn('Failed to connect to Redis, jobs will only be kept in memory:', error);
+      this.isRedisConnected = false;
+    }
+  }
+
+  private redisKey(jobId: string): string {
+    return `job:${jobId}`;
+  }
+
+  async createJob(params: CreateJobParams): Promise<Job> {
+    this.pruneExpired();
+
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: crypto.randomUUID(),
+      socketId: params.socketId,
+      stage: 'queued',
+      targetLanguage: params.targetLanguage,
+      additionalLanguages: params.additionalLanguages ?? [],
+      generateImages: params.generateImages,
+      dietaryProfile: params.dietaryProfile,
+      homeCurrency: params.homeCurrency,
+      createdAt: now,
+      updatedAt: now,
+      items: [],
+    };
+
+    this.memoryJobs.set(job.id, { job, expiresAt: Date.now() + this.JOB_TTL_SECONDS * 1000 });
+    await this.persist(job);
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<Job | null> {
+    const inMemory = this.memoryJobs.get(jobId);
+    if (inMemory) {
+      if (inMemory.expiresAt > Date.now()) {
+        return inMemory.job;
+      }
+      this.memoryJobs.delete(jobId);
+    }
+
+    if (this.isRedisConnected && this.redisClient) {
+      try {
+        const data = await this.redisClient.get(this.redisKey(jobId));
+        if (data) {
+          return JSON.parse(data) as Job;
+        }
+      } catch (error) {
+        console.warn('Redis get job error:', error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Applies `mutate` to the job synchronously (so parallel image batches can't clobber each
+   * other) and then writes the new state through to Redis.
+   */
+  async updateJob(jobId: string, mutate: (job: Job) => void): Promise<Job | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      console.warn(`Tried to update unknown job: ${jobId}`);
+      return null;
+    }
+
+    mutate(job);
+    job.updatedAt = new Date().toISOString();
+
+    if (!this.memoryJobs.has(jobId)) {
+      this.memoryJobs.set(jobId, { job, expiresAt: Date.now() + this.JOB_TTL_SECONDS * 1000 });
+    }
+
+    await this.persist(job);
+    return job;
+  }
+
+  /**
+   * Marks a job as running and returns the signal its pipeline should honour.
+   */
+  startRun(jobId: string): AbortSignal {
+    const controller = new AbortController();
+    this.runningJobs.set(jobId, controller);
+    return controller.signal;
+  }
+
+  finishRun(jobId: string): void {
+    this.runningJobs.delete(jobId);
+  }
+
+  /**
+   * Aborts a run that failed, so work it started in the background (images of streamed
+   * items) stops too. Unlike cancelJob this isn't a cancellation; the pipeline has already
+   * decided how the job ended.
+   */
+  abortRun(jobId: string): void {
+    this.runningJobs.get(jobId)?.abort();
+  }
+
+  isRunning(jobId: string): boolean {
+    return this.runningJobs.has(jobId);
+  }
+
+  /**
+   * Aborts a running job. The pipeline notices the abort, records the `cancelled` stage and
+   * emits `processing_cancelled`. Returns false if the job isn't running here.
+   */
+  cancelJob(jobId: string): boolean {
+    const controller = this.runningJobs.get(jobId);
+    if (!controller) return false;
+
+    console.log(`Cancelling job: ${jobId}`);
+    controller.abort();
+    return true;
+  }
+
+  private async persist(job: Job): Promise<void> {
+    if (!this.isRedisConnected || !this.redisClient) return;
+
+    try {
+      await this.redisClient.setEx(this.redisKey(job.id), this.JOB_TTL_SECONDS, JSON.stringify(job));
+    } catch (error) {
+      console.warn('Redis set job error:', error);
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [jobId, entry] of this.memoryJobs.entries()) {
+      if (entry.expiresAt <= now) {
+        this.memoryJobs.delete(jobId);
+      }
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.redisClient) {
+      try {
+        await this.redisClient.disconnect();
+      } catch (error) {
+        console.warn('Error disconnecting job store Redis:', error);
+      }
+    }
+  }
+}
+
+export const jobService = JobService.getInstance();
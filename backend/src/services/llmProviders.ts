@@ -0,0 +1,405 @@
+import fs from 'fs';
+import OpenAI from 'openai';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'local' | 'stub';
+
+export interface LLMImageInput {
+  data: Buffer;
+  mimetype: string;
+}
+
+export interface LLMCompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  temperature: number;
+  maxTokens: number;
+  jsonMode: boolean;
+  // Structured output: providers that support it constrain the reply to this JSON Schema
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+  // Sent after the prompt, in order; only for providers with `supportsVision`
+  images?: LLMImageInput[];
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  readonly supportsVision: boolean;
+  initialize(): Promise<void>;
+  complete(request: LLMCompletionRequest, signal?: AbortSignal): Promise<string>;
+  // Same reply as `complete`, yielded as text deltas while the model is still generating
+  stream?(request: LLMCompletionRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+// User message content in the OpenAI chat format, which local servers accept as well
+function openAIUserContent(request: LLMCompletionRequest): OpenAI.Chat.ChatCompletionUserMessageParam['content'] {
+  if (!request.images?.length) {
+    return request.userPrompt;
+  }
+
+  return [
+    { type: 'text', text: request.userPrompt },
+    ...request.images.map((image) => ({
+      type: 'image_url' as const,
+      image_url: { url: `data:${image.mimetype};base64,${image.data.toString('base64')}` },
+    })),
+  ];
+}
+
+function openAIMessages(request: LLMCompletionRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return [
+    { role: 'system', content: request.systemPrompt },
+    { role: 'user', content: openAIUserContent(request) },
+  ];
+}
+
+function openAIResponseFormat(request: LLMCompletionRequest) {
+  if (request.responseSchema) {
+    return {
+      response_format: {
+        type: 'json_schema' as const,
+        json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema, strict: true },
+      },
+    };
+  }
+  return request.jsonMode ? { response_format: { type: 'json_object' as const } } : {};
+}
+
+async function* streamOpenAICompletion(
+  client: OpenAI,
+  model: string,
+  request: LLMCompletionRequest,
+  signal?: AbortSignal
+): AsyncIterable<string> {
+  const stream = await client.chat.completions.create({
+    model,
+    messages: openAIMessages(request),
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    ...openAIResponseFormat(request),
+    stream: true,
+  }, { signal });
+
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) yield delta;
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'openai';
+  readonly supportsVision = true;
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly model: string = 'gpt-4o-mini',
+    private readonly apiKey: string | undefined = process.env.OPENAI_API_KEY
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (this.client) return;
+
+    if (!this.apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is required');
+    }
+
+    const client = new OpenAI({ apiKey: this.apiKey });
+
+    // Test the connection
+    await client.models.list();
+    this.client = client;
+  }
+
+  async complete(request: LLMCompletionRequest, signal?: AbortSignal): Promise<string> {
+    await this.initialize();
+
+    const completion = await this.client!.chat.completions.create({
+      model: this.model,
+      messages: openAIMessages(request),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...openAIResponseFormat(request),
+    }, { signal });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No response from OpenAI');
+    }
+    return content;
+  }
+
+  async *stream(request: LLMCompletionRequest, signal?: AbortSignal): AsyncIterable<string> {
+    await this.initialize();
+    yield* streamOpenAICompletion(this.client!, this.model, request, signal);
+  }
+}
+
+/**
+ * Talks to the Anthropic Messages API over plain HTTP so we don't need another SDK.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'anthropic';
+  readonly supportsVision = true;
+
+  constructor(
+    readonly model: string = 'claude-3-5-haiku-latest',
+    private readonly apiKey: string | undefined = process.env.ANTHROPIC_API_KEY,
+    private readonly baseUrl: string = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com'
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (!this.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY environment variable is required');
+    }
+  }
+
+  async complete(request: LLMCompletionRequest, signal?: AbortSignal): Promise<string> {
+    const response = await this.post(this.requestBody(request), signal);
+
+    const data = (await response.json()) as { content?: Array<{ type: string; text?: string; input?: unknown }> };
+    const toolUse = (data.content || []).find((block) => block.type === 'tool_use');
+    if (toolUse) {
+      return JSON.stringify(toolUse.input);
+    }
+
+    const text = (data.content || [])
+      .filter((block) => block.type === 'text' && block.text)
+      .map((block) => block.text)
+      .join('');
+
+    if (!text) {
+      throw new Error('No response from Anthropic');
+    }
+    return text;
+  }
+
+  /**
+   * Server-sent events: text arrives as `text_delta`s, or as `input_json_delta`s when the
+   * reply is a forced tool call, which concatenate to the same JSON `complete` returns.
+   */
+  async *stream(request: LLMCompletionRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const response = await this.post({ ...this.requestBody(request), stream: true }, signal);
+    if (!response.body) {
+      throw new Error('No response from Anthropic');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+
+      const events = pending.split('\n\n');
+      pending = events.pop()!;
+      for (const event of events) {
+        const data = event.split('\n').find((line) => line.startsWith('data:'));
+        if (!data) continue;
+
+        const payload = JSON.parse(data.substring(5)) as {
+          type: string;
+          delta?: { type: string; text?: string; partial_json?: string };
+          error?: { message?: string };
+        };
+        if (payload.type === 'error') {
+          throw new Error(`Anthropic stream failed: ${payload.error?.message || 'unknown error'}`);
+        }
+        if (payload.type === 'content_block_delta') {
+          const delta = payload.delta?.text ?? payload.delta?.partial_json;
+          if (delta) yield delta;
+        }
+      }
+    }
+  }
+
+  private requestBody(request: LLMCompletionRequest): Record<string, unknown> {
+    return {
+      model: this.model,
+      system: request.systemPrompt,
+      messages: [{ role: 'user', content: this.userContent(request) }],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      // Structured output via a forced tool call whose input must match the schema
+      ...(request.responseSchema ? {
+        tools: [{
+          name: request.responseSchema.name,
+          description: 'Return the result in this structure',
+          input_schema: request.responseSchema.schema,
+        }],
+        tool_choice: { type: 'tool', name: request.responseSchema.name },
+      } : {}),
+    };
+  }
+
+  private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    await this.initialize();
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey!,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic request failed with status ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  }
+
+  private userContent(request: LLMCompletionRequest) {
+    if (!request.images?.length) {
+      return request.userPrompt;
+    }
+
+    return [
+      ...request.images.map((image) => ({
+        type: 'image',
+        source: { type: 'base64', media_type: image.mimetype, data: image.data.toString('base64') },
+      })),
+      { type: 'text', text: request.userPrompt },
+    ];
+  }
+}
+
+/**
+ * Any OpenAI-compatible local server: Ollama (`/v1`), llama.cpp `server`, LM Studio, vLLM...
+ */
+export class LocalProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'local';
+  private client: OpenAI;
+
+  constructor(
+    readonly model: string = 'llama3.1',
+    baseURL: string = process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1',
+    // Only multimodal models (llava, llama3.2-vision, qwen2.5vl...) accept images
+    readonly supportsVision: boolean = process.env.LOCAL_LLM_VISION === 'true'
+  ) {
+    // Local servers ignore the key, but the SDK refuses to start without one
+    this.client = new OpenAI({ apiKey: process.env.LOCAL_LLM_API_KEY || 'local', baseURL });
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to do - the server is checked on first request
+  }
+
+  async complete(request: LLMCompletionRequest, signal?: AbortSignal): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: openAIMessages(request),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...openAIResponseFormat(request),
+    }, { signal });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No response from local LLM');
+    }
+    return content;
+  }
+
+  stream(request: LLMCompletionRequest, signal?: AbortSignal): AsyncIterable<string> {
+    return streamOpenAICompletion(this.client, this.model, request, signal);
+  }
+}
+
+/**
+ * Deterministic provider for offline development and tests. Returns the contents of
+ * LLM_STUB_RESPONSE_FILE when set, otherwise a small canned menu.
+ */
+export class StubProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'stub';
+  readonly model = 'stub';
+  readonly supportsVision = true;
+  private readonly STREAM_CHUNK_LENGTH = 16;
+
+  constructor(private readonly responseFile: string | undefined = process.env.LLM_STUB_RESPONSE_FILE) {}
+
+  async initialize(): Promise<void> {
+    // Nothing to initialize
+  }
+
+  // Replays the canned reply in small pieces, like a model generating it
+  async *stream(request?: LLMCompletionRequest): AsyncIterable<string> {
+    const response = await this.complete(request);
+    for (let i = 0; i < response.length; i += this.STREAM_CHUNK_LENGTH) {
+      yield response.substring(i, i + this.STREAM_CHUNK_LENGTH);
+    }
+  }
+
+  async complete(request?: LLMCompletionRequest): Promise<string> {
+    // Item translations echo the items back unchanged
+    if (request?.responseSchema?.name === 'item_translations') {
+      const items = request.userPrompt.match(/ITEMS:\n([\s\S]*?)\n\nReturn ONLY/)?.[1];
+      return JSON.stringify({ items: items ? JSON.parse(items) : [] });
+    }
+
+    if (this.responseFile) {
+      return fs.promises.readFile(this.responseFile, 'utf8');
+    }
+
+    return JSON.stringify({
+      sourceLanguage: 'Italian',
+      items: [
+        {
+          name: 'Margherita Pizza',
+          originalName: 'Pizza Margherita',
+          description: 'Tomato sauce, fresh mozzarella and basil',
+          price: '€9.50',
+          category: 'Main Courses',
+          dietary: {
+            vegetarian: true,
+            vegan: false,
+            halal: null,
+            glutenFree: false,
+            allergens: ['gluten', 'milk'],
+            spiceLevel: 0,
+            confidence: 'medium',
+          },
+        },
+        {
+          name: 'Tiramisu',
+          originalName: 'Tiramisù',
+          description: 'Coffee-soaked ladyfingers layered with mascarpone cream',
+          price: '€6.00',
+          category: 'Desserts',
+          dietary: {
+            vegetarian: true,
+            vegan: false,
+            halal: null,
+            glutenFree: false,
+            allergens: ['gluten', 'eggs', 'milk'],
+            spiceLevel: 0,
+            confidence: 'medium',
+          },
+        },
+      ],
+    });
+  }
+}
+
+export function createLLMProvider(
+  name: string = process.env.LLM_PROVIDER || 'openai',
+  model: string | undefined = process.env.LLM_MODEL || undefined
+): LLMProvider {
+  switch (name.toLowerCase()) {
+    case 'openai':
+      return new OpenAIProvider(model);
+    case 'anthropic':
+      return new AnthropicProvider(model);
+    case 'local':
+    case 'ollama':
+    case 'llamacpp':
+      return new LocalProvider(model);
+    case 'stub':
+      return new StubProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
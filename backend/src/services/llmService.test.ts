@@ -0,0 +1,93 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LLMService } from './llmService';
+import { StubProvider } from './llmProviders';
+
+const menu = [
+  '=== PAGE 1 ===',
+  'ANTIPASTI',
+  'Bruschetta 6',
+  'Caprese 8',
+  '',
+  'PRIMI',
+  'Carbonara 12',
+  'Amatriciana 11',
+  '',
+  '=== PAGE 2 ===',
+  'DOLCI',
+  'Tiramisù 6',
+  'Panna cotta 5',
+].join('\n');
+
+afterEach(() => {
+  delete process.env.LLM_CHUNK_SIZE;
+  delete process.env.LLM_CHUNK_CONCURRENCY;
+});
+
+test('a menu that fits in one chunk is sent as it is', () => {
+  assert.deepEqual(new LLMService().splitIntoChunks(menu), [menu]);
+});
+
+test('splits between paragraphs and repeats the page marker', () => {
+  process.env.LLM_CHUNK_SIZE = '60';
+  const chunks = new LLMService().splitIntoChunks(menu);
+
+  assert.deepEqual(chunks, [
+    '=== PAGE 1 ===\nANTIPASTI\nBruschetta 6\nCaprese 8',
+    '=== PAGE 1 ===\nPRIMI\nCarbonara 12\nAmatriciana 11',
+    '=== PAGE 2 ===\nDOLCI\nTiramisù 6\nPanna cotta 5',
+  ]);
+});
+
+test('splits an oversized paragraph between its lines', () => {
+  process.env.LLM_CHUNK_SIZE = '30';
+  const paragraph = ['Margherita 9', 'Marinara 7', 'Diavola 10', 'Quattro formaggi 11'].join('\n');
+  const chunks = new LLMService().splitIntoChunks(paragraph);
+
+  assert.deepEqual(chunks, ['Margherita 9\n\nMarinara 7', 'Diavola 10', 'Quattro formaggi 11']);
+  assert.ok(chunks.every((chunk) => chunk.length <= 30));
+});
+
+test('ignores chunk sizes that are not positive integers', () => {
+  for (const value of ['0', '-100', 'abc', '2.5', ' ']) {
+    process.env.LLM_CHUNK_SIZE = value;
+    assert.deepEqual(new LLMService().splitIntoChunks(menu), [menu], `LLM_CHUNK_SIZE=${value}`);
+  }
+});
+
+test('a concurrency of 0 falls back to the default instead of never starting', { timeout: 5000 }, async () => {
+  process.env.LLM_CHUNK_SIZE = '60';
+  process.env.LLM_CHUNK_CONCURRENCY = '0';
+  const service = new LLMService();
+  service.setProvider(new StubProvider(undefined));
+
+  const result = await service.translateMenuChunked(menu, 'en');
+  // Every chunk gets the stub's canned menu; repeats are merged
+  assert.deepEqual(result.translatedMenu.map((item) => item.originalName), ['Pizza Margherita', 'Tiramisù']);
+});
+
+test('items streamed from a reply that fails validation are retracted before the re-ask', async () => {
+  const item = (originalName: string) => ({ name: originalName, originalName, description: '', price: '6', category: 'Appetizers' });
+  const replies = [
+    // Streams a valid item, then turns out to have no source language
+    JSON.stringify({ items: [item('Bruschetta')], sourceLanguage: '' }),
+    JSON.stringify({ items: [item('Bruschetta'), item('Caprese')], sourceLanguage: 'Italian' }),
+  ];
+  class ReplayProvider extends StubProvider {
+    async complete(): Promise<string> {
+      return replies.shift()!;
+    }
+  }
+  const service = new LLMService();
+  service.setProvider(new ReplayProvider(undefined));
+
+  const events: string[] = [];
+  const result = await service.translateMenuChunked(menu, 'en', {
+    onItem: (streamed) => events.push(`item ${streamed.originalName}`),
+    onRetract: (items) => events.push(`retract ${items.map((retracted) => retracted.originalName).join(', ')}`),
+  });
+
+  // Reported again once retracted, since the client no longer has it
+  assert.deepEqual(events, ['item Bruschetta', 'retract Bruschetta', 'item Bruschetta', 'item Caprese']);
+  assert.deepEqual(result.translatedMenu.map((translated) => translated.originalName), ['Bruschetta', 'Caprese']);
+});
@@ -1,5 +1,69 @@
-import OpenAI from 'openai';
-import { MenuItem } from '../types';
+import sharp from 'sharp';
+import { DietaryProfile, ItemTranslation, MenuItem } from '../types';
+import { LLMCompletionRequest, LLMImageInput, LLMProvider, createLLMProvider } from './llmProviders';
+import {
+  EU_ALLERGENS,
+  ITEM_TRANSLATIONS_JSON_SCHEMA,
+  MENU_CATEGORIES,
+  MENU_RESPONSE_JSON_SCHEMA,
+  MenuItemResponse,
+  MenuResponse,
+  MenuResponseValidationError,
+  formatIssue,
+  menuItemSchema,
+  parseItemTranslationsResponse,
+  parseMenuResponse,
+} from './menuSchema';
+import { normalizeForMatching } from '../utils/textMatching';
+import { JsonArrayStreamParser } from '../utils/incrementalJson';
+import { createLimiter } from '../utils/concurrency';
+import { checkSuitability, describeDietaryProfile, hasDietaryProfile, modelReason } from './dietaryProfile';
+import { sleep, throwIfAborted } from '../utils/abortUtils';
+import { positiveIntegerEnv } from '../utils/envUtils';
+
+// Languages menus can be translated into, by ISO 639-1 code (with a script subtag for
+// Chinese). The English names are what the prompts ask for.
+export const TARGET_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  sv: 'Swedish',
+  da: 'Danish',
+  nb: 'Norwegian',
+  fi: 'Finnish',
+  pl: 'Polish',
+  cs: 'Czech',
+  hu: 'Hungarian',
+  ro: 'Romanian',
+  el: 'Greek',
+  tr: 'Turkish',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  he: 'Hebrew',
+  ar: 'Arabic',
+  hi: 'Hindi',
+  th: 'Thai',
+  vi: 'Vietnamese',
+  id: 'Indonesian',
+  ms: 'Malay',
+  ja: 'Japanese',
+  ko: 'Korean',
+  'zh-Hans': 'Chinese (Simplified)',
+  'zh-Hant': 'Chinese (Traditional)',
+};
+
+export function isSupportedTargetLanguage(language: string): boolean {
+  return Object.prototype.hasOwnProperty.call(TARGET_LANGUAGES, language);
+}
+
+// Unknown values are passed through, for callers that still use language names
+export function languageName(language: string): string {
+  return isSupportedTargetLanguage(language) ? TARGET_LANGUAGES[language] : language;
+}
 
 export interface LLMResult {
   translatedMenu: MenuItem[];
@@ -8,10 +72,60 @@ export interface LLMResult {
   processingTime: number;
 }
 
+export interface TranslationChunkResult {
+  // 1-based, in menu order; chunks finish out of order
+  chunk: number;
+  totalChunks: number;
+  // Items of this chunk that no earlier-finished chunk already returned
+  newItems: MenuItem[];
+  sourceLanguage: string;
+}
+
+export interface MenuRequestOptions {
+  signal?: AbortSignal;
+  // Called for each item as soon as the model has written it, when the provider can stream
+  onItem?: (item: MenuItem) => void;
+  // Called with the items `onItem` got from a reply that was then rejected, before the
+  // request is sent again
+  onRetract?: (items: MenuItem[]) => void;
+  // Items are judged against it and get a `suitability` verdict
+  dietaryProfile?: DietaryProfile;
+}
+
+export interface ChunkedTranslationOptions extends MenuRequestOptions {
+  maxRetries?: number;
+  // Items already passed to `onItem` are left out of `newItems`
+  onChunk?: (result: TranslationChunkResult) => void;
+}
+
 export class LLMService {
   private static instance: LLMService;
-  private openai: OpenAI | null = null;
+  private provider: LLMProvider | null = null;
+  // Separate provider for image input, when LLM_VISION_PROVIDER / LLM_VISION_MODEL are set
+  private visionProvider: LLMProvider | null = null;
   private isInitialized = false;
+  // Vision APIs downscale anyway; this keeps payloads under Anthropic's 5MB per-image limit
+  private readonly MAX_VISION_IMAGE_DIMENSION = 2048;
+  // Re-asks after a reply fails schema validation, on top of the first request
+  private readonly MAX_SCHEMA_REPAIR_ATTEMPTS = 2;
+  // Enough of a bad reply for the model to see its mistake without doubling the prompt size
+  private readonly MAX_REPAIR_ECHO_LENGTH = 6000;
+  // Items per request when translating already-parsed items into another language
+  private readonly ITEM_TRANSLATION_BATCH_SIZE = 40;
+
+  // Long menus are split so each reply fits comfortably in maxTokens. Read lazily, since
+  // the singleton is created before index.ts loads .env.
+  private get chunkSize(): number {
+    return positiveIntegerEnv('LLM_CHUNK_SIZE', 3000);
+  }
+
+  private get chunkConcurrency(): number {
+    return positiveIntegerEnv('LLM_CHUNK_CONCURRENCY', 3);
+  }
+
+  private get streamingEnabled(): boolean {
+    return process.env.LLM_STREAMING !== 'false';
+  }
 
   static getInstance(): LLMService {
     if (!LLMService.instance) {
@@ -20,48 +134,121 @@ export class LLMService {
     return LLMService.instance;
   }
 
-  async initialize(): Promise<void> {
-    if (this.isInitialized) return;
+  /**
+   * Swap the provider at runtime (e.g. a stub in tests). Defaults to LLM_PROVIDER / LLM_MODEL.
+   */
+  setProvider(provider: LLMProvider): void {
+    this.provider = provider;
+    this.isInitialized = false;
+  }
+
+  getProvider(): LLMProvider | null {
+    return this.provider;
+  }
+
+  setVisionProvider(provider: LLMProvider): void {
+    this.visionProvider = provider;
+  }
+
+  private async getVisionProvider(): Promise<LLMProvider> {
+    if (!this.visionProvider) {
+      if (process.env.LLM_VISION_PROVIDER || process.env.LLM_VISION_MODEL) {
+        this.visionProvider = createLLMProvider(
+          process.env.LLM_VISION_PROVIDER || process.env.LLM_PROVIDER || 'openai',
+          process.env.LLM_VISION_MODEL || undefined
+        );
+      } else {
+        await this.initialize();
+        this.visionProvider = this.provider!;
+      }
+    }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
+    if (!this.visionProvider.supportsVision) {
+      throw new Error(
+        `LLM provider ${this.visionProvider.name} (${this.visionProvider.model}) does not accept images`
+      );
     }
 
+    await this.visionProvider.initialize();
+    return this.visionProvider;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
     try {
-      this.openai = new OpenAI({
-        apiKey: apiKey,
-      });
+      if (!this.provider) {
+        this.provider = createLLMProvider();
+      }
 
-      // Test the connection
-      await this.openai.models.list();
+      await this.provider.initialize();
 
       this.isInitialized = true;
-      console.log('LLM Service initialized successfully');
+      console.log(`LLM Service initialized successfully (provider: ${this.provider.name}, model: ${this.provider.model})`);
     } catch (error) {
       console.error('Failed to initialize LLM service:', error);
       throw new Error('LLM service initialization failed');
     }
   }
 
+  /**
+   * `extractedText` is the OCR output; pass null when the menu is attached as images instead.
+   */
   private generatePrompt(
-    extractedText: string,
-    targetLanguage: string
+    extractedText: string | null,
+    targetLanguage: string,
+    dietaryProfile?: DietaryProfile
   ): string {
-    return `You are a professional menu translator and food expert. Your task is to parse and translate a restaurant menu from OCR-extracted text.
+    const language = languageName(targetLanguage);
+    const input = extractedText === null
+      ? `Your task is to read and translate a restaurant menu from the attached photo(s).
+
+INPUT:
+The attached images are the pages of one menu, in order. Page 1 is the first image.`
+      : `Your task is to parse and translate a restaurant menu from OCR-extracted text.
 
 INPUT TEXT (from OCR):
-${extractedText}
+${extractedText}`;
+
+    const pageRule = extractedText === null
+      ? 'Record the page number each item appears on (the position of its image, starting at 1)'
+      : 'The text may span several pages separated by markers like "=== PAGE 2 ===". Record the page number each item appears on (use 1 if there are no markers)';
+
+    const profileRules = hasDietaryProfile(dietaryProfile)
+      ? `
+DINER'S DIETARY PROFILE:
+${describeDietaryProfile(dietaryProfile)}
+
+For each item set "suitability" to {"verdict": ..., "reason": ...} for this diner:
+- "avoid" if it likely contains one of their allergens or breaks a restriction
+- "caution" if it might (unlisted sauces, cross-contamination, recipes that vary) or contains something they dislike
+- "safe" only when you are confident it fits the profile
+- reason: one short sentence in ${language} naming the ingredient that matters
+`
+      : `
+Set "suitability" to null for every item.
+`;
+
+    return `You are a professional menu translator and food expert. ${input}
 
 INSTRUCTIONS:
-1. Parse the text to identify individual menu items
+1. ${extractedText === null ? 'Read the images' : 'Parse the text'} to identify individual menu items
 2. For each item, extract: name, description, price, and category
-3. Translate all text to ${targetLanguage}
+3. Translate all text to ${language}
 4. Maintain original formatting and pricing
 5. Categorize items appropriately (Appetizers, Main Courses, Desserts, Beverages, etc.)
-6. If price is unclear, omit it rather than guessing
+6. If price is unclear, use null rather than guessing
 7. Provide clear, appetizing descriptions
-
+8. ${pageRule}
+9. Assess each item's dietary information (see DIETARY RULES)
+
+DIETARY RULES:
+Diners with allergies rely on this, so be conservative.
+- vegetarian, vegan, halal, glutenFree: true or false only when the menu says so or the dish unambiguously implies it; otherwise null
+- allergens: every allergen the dish likely contains, from: ${EU_ALLERGENS.join(', ')}. Include common hidden sources (e.g. fish sauce, butter, wheat in sauces)
+- spiceLevel: 0 (not spicy) to 3 (very hot), or null if unknown
+- confidence: "high" when the menu lists ingredients or allergens, "medium" for well-known standard recipes, "low" when guessing from the name alone
+${profileRules}
 CRITICAL JSON FORMATTING RULES:
 - Use double quotes for all strings
 - Escape any quotes inside strings with \\"
@@ -78,8 +265,19 @@ Return ONLY a valid JSON object with this exact structure:
       "name": "translated_name",
       "originalName": "original_name", 
       "description": "translated_description",
-      "price": "original_price_if_available",
-      "category": "appropriate_category"
+      "price": "original_price_or_null",
+      "category": "appropriate_category",
+      "page": 1,
+      "dietary": {
+        "vegetarian": true,
+        "vegan": false,
+        "halal": null,
+        "glutenFree": false,
+        "allergens": ["gluten", "milk"],
+        "spiceLevel": 0,
+        "confidence": "medium"
+      },
+      "suitability": ${hasDietaryProfile(dietaryProfile) ? '{"verdict": "caution", "reason": "short_reason"}' : 'null'}
     }
   ]
 }
@@ -88,47 +286,33 @@ IMPORTANT:
 - ONLY return valid JSON, absolutely no additional text or explanations
 - If you cannot identify any menu items, return {"sourceLanguage": "unknown", "items": []}
 - Ensure all strings are properly escaped for JSON
-- Categories must be one of: "Appetizers", "Main Courses", "Desserts", "Beverages", "Sides", "Specials", or "Other"
+- Categories must be one of: ${MENU_CATEGORIES.map((category) => `"${category}"`).join(', ')}
 - Do not include markdown code blocks or formatting`;
   }
 
   async translateMenu(
     extractedText: string,
-    targetLanguage: string = 'English'
+    targetLanguage: string = 'en',
+    options: MenuRequestOptions = {}
   ): Promise<LLMResult> {
     const startTime = Date.now();
 
-    if (!this.isInitialized || !this.openai) {
+    if (!this.isInitialized || !this.provider) {
       await this.initialize();
     }
 
     try {
-      const prompt = this.generatePrompt(extractedText, targetLanguage);
-
-      const completion = await this.openai!.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a professional menu translator. Always respond with valid JSON only.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-        max_tokens: 4000,
-        response_format: { type: 'json_object' },
-      });
-
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
-        throw new Error('No response from LLM service');
-      }
+      const prompt = this.generatePrompt(extractedText, targetLanguage, options.dietaryProfile);
 
-      const parsedResponse = this.parseResponse(response);
+      const parsedResponse = await this.requestMenu(this.provider!, {
+        systemPrompt:
+          'You are a professional menu translator. Always respond with valid JSON only.',
+        userPrompt: prompt,
+        temperature: 0.3,
+        maxTokens: 4000,
+        jsonMode: true,
+        responseSchema: { name: 'menu', schema: MENU_RESPONSE_JSON_SCHEMA },
+      }, options);
       const processingTime = Date.now() - startTime;
 
       return {
@@ -139,219 +323,432 @@ IMPORTANT:
       };
     } catch (error) {
       console.error('LLM translation failed:', error);
+      if (error instanceof MenuResponseValidationError) throw error;
       throw new Error(
         `Failed to translate menu: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
     }
   }
 
-  private parseResponse(response: string): {
-    sourceLanguage: string;
-    items: MenuItem[];
-  } {
+  /**
+   * Vision mode: sends the menu photos straight to a multimodal model, which reads and
+   * translates them in one step without Tesseract.
+   */
+  async extractMenuFromImages(
+    images: LLMImageInput[],
+    targetLanguage: string = 'en',
+    options: MenuRequestOptions = {}
+  ): Promise<LLMResult> {
+    const startTime = Date.now();
+    const provider = await this.getVisionProvider();
+
     try {
-      // Log the raw response for debugging
-      console.log('Raw LLM response length:', response.length);
-      console.log('Raw LLM response preview:', response.substring(0, 1000) + '...');
+      const preparedImages = await Promise.all(images.map((image) => this.prepareVisionImage(image)));
+      throwIfAborted(options.signal);
 
-      // Clean the response - remove any markdown code blocks or extra text
-      let cleanResponse = response.trim();
+      const parsedResponse = await this.requestMenu(provider, {
+        systemPrompt:
+          'You are a professional menu translator. Always respond with valid JSON only.',
+        userPrompt: this.generatePrompt(null, targetLanguage, options.dietaryProfile),
+        temperature: 0.3,
+        maxTokens: 4000,
+        jsonMode: true,
+        responseSchema: { name: 'menu', schema: MENU_RESPONSE_JSON_SCHEMA },
+        images: preparedImages,
+      }, options);
 
-      // Remove markdown code blocks if present
-      cleanResponse = cleanResponse
-        .replace(/```json\s*/g, '')
-        .replace(/```\s*/g, '');
+      return {
+        translatedMenu: parsedResponse.items,
+        sourceLanguage: parsedResponse.sourceLanguage,
+        targetLanguage,
+        processingTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      console.error('Vision menu extraction failed:', error);
+      if (error instanceof MenuResponseValidationError) throw error;
+      throw new Error(
+        `Failed to read menu with vision model: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
 
-      // Find the JSON object - look for the first { and last }
-      const firstBrace = cleanResponse.indexOf('{');
-      const lastBrace = cleanResponse.lastIndexOf('}');
+  private async prepareVisionImage(image: LLMImageInput): Promise<LLMImageInput> {
+    const data = await sharp(image.data)
+      .rotate()
+      .resize({
+        width: this.MAX_VISION_IMAGE_DIMENSION,
+        height: this.MAX_VISION_IMAGE_DIMENSION,
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+
+    return { data, mimetype: 'image/jpeg' };
+  }
 
-      if (firstBrace === -1 || lastBrace === -1 || firstBrace >= lastBrace) {
-        throw new Error('No valid JSON object found in response');
-      }
+  /**
+   * Sends a menu request and validates the reply against the menu schema, streaming items
+   * to `onItem` when the provider can.
+   */
+  private async requestMenu(
+    provider: LLMProvider,
+    request: LLMCompletionRequest,
+    options: MenuRequestOptions
+  ): Promise<{ sourceLanguage: string; items: MenuItem[] }> {
+    const { signal, onItem, onRetract, dietaryProfile } = options;
+    // Items streamed by the current attempt, shown to nobody once it turns out invalid
+    let streamed: MenuItem[] = [];
+    const retractStreamed = () => {
+      if (streamed.length > 0) onRetract?.(streamed);
+      streamed = [];
+    };
 
-      const jsonString = cleanResponse.substring(firstBrace, lastBrace + 1);
-      console.log('Extracted JSON length:', jsonString.length);
+    let parsed: MenuResponse;
+    try {
+      parsed = await this.requestValidated(
+        request,
+        (attempt) => {
+          retractStreamed();
+          return onItem && provider.stream && this.streamingEnabled
+            ? this.streamMenu(provider, attempt, (item) => {
+              const menuItem = this.toMenuItem(item, dietaryProfile);
+              streamed.push(menuItem);
+              onItem(menuItem);
+            }, signal)
+            : provider.complete(attempt, signal);
+        },
+        parseMenuResponse,
+        signal
+      );
+    } catch (error) {
+      if (!signal?.aborted) retractStreamed();
+      throw error;
+    }
 
-      // Try multiple approaches to parse the JSON
-      let parsed: any;
-      let parseError: Error | null = null;
+    return {
+      sourceLanguage: parsed.sourceLanguage,
+      items: parsed.items.map((item) => this.toMenuItem(item, dietaryProfile)),
+    };
+  }
+
+  /**
+   * Sends a request and parses the reply. When validation fails, the model is shown its
+   * reply and the exact problems and asked to correct them, rather than us guessing at
+   * repairs.
+   */
+  private async requestValidated<T>(
+    request: LLMCompletionRequest,
+    send: (request: LLMCompletionRequest) => Promise<string | null | undefined>,
+    parse: (response: string) => T,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let userPrompt = request.userPrompt;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await send({ ...request, userPrompt });
+      if (!response) {
+        throw new Error('No response from LLM service');
+      }
 
-      // Attempt 1: Try with common fixes
       try {
-        let fixedJson = this.fixCommonJsonIssues(jsonString);
-        parsed = JSON.parse(fixedJson);
+        return parse(response);
       } catch (error) {
-        parseError = error as Error;
-        console.log(
-          'First parse attempt failed, trying more aggressive cleaning...'
-        );
-
-        // Attempt 2: More aggressive cleaning
-        try {
-          let aggressiveClean = this.aggressiveJsonClean(jsonString);
-          parsed = JSON.parse(aggressiveClean);
-        } catch (error2) {
-          console.log(
-            'Second parse attempt failed, trying manual reconstruction...'
-          );
-
-          // Attempt 3: Try to manually extract and reconstruct
-          try {
-            parsed = this.manualJsonReconstruction(jsonString);
-          } catch (error3) {
-            // Attempt 4: Last resort - create a simple fallback structure
-            console.log('Manual reconstruction failed, creating basic fallback...');
-            parsed = {
-              sourceLanguage: 'English',
-              items: [{
-                name: 'Menu Items Detected',
-                originalName: 'Menu Items Detected',
-                description: 'Unable to parse individual items due to formatting issues. Please try uploading the image again.',
-                price: undefined,
-                category: 'Other'
-              }]
-            };
-          }
+        if (!(error instanceof MenuResponseValidationError) || attempt >= this.MAX_SCHEMA_REPAIR_ATTEMPTS) {
+          throw error;
         }
-      }
 
-      if (!parsed.items || !Array.isArray(parsed.items)) {
-        throw new Error('Invalid response format: missing items array');
-      }
+        console.warn(`LLM response failed validation (${error.issues.length} issues), asking for a correction`);
+        throwIfAborted(signal);
+        userPrompt = `${request.userPrompt}
 
-      // Validate and clean menu items
-      const validItems: MenuItem[] = parsed.items
-        .filter((item: any) => item.name && item.originalName)
-        .map((item: any) => ({
-          name: String(item.name).trim(),
-          originalName: String(item.originalName).trim(),
-          description: item.description ? String(item.description).trim() : '',
-          price: item.price ? String(item.price).trim() : undefined,
-          category: item.category ? String(item.category).trim() : 'Other',
-        }));
+YOUR PREVIOUS RESPONSE:
+${response.substring(0, this.MAX_REPAIR_ECHO_LENGTH)}
 
-      return {
-        sourceLanguage: parsed.sourceLanguage || 'unknown',
-        items: validItems,
-      };
-    } catch (error) {
-      console.error('Failed to parse LLM response:', error);
-      console.error('Raw response for debugging:', response);
-      throw new Error(
-        `Failed to parse translation response: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+That response was rejected because it does not match the required JSON structure:
+${error.issues.map((issue) => `- ${formatIssue(issue)}`).join('\n')}
+
+Return the complete corrected JSON object, fixing only these problems.`;
+      }
     }
   }
 
-  private fixCommonJsonIssues(jsonString: string): string {
-    let fixed = jsonString;
+  /**
+   * Streams the reply, passing each item to `onItem` once it is complete and valid on its
+   * own. Returns the full text, which still gets validated as a whole.
+   */
+  private async streamMenu(
+    provider: LLMProvider,
+    request: LLMCompletionRequest,
+    onItem: (item: MenuItemResponse) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const parser = new JsonArrayStreamParser('items');
+    let response = '';
+
+    for await (const delta of provider.stream!(request, signal)) {
+      response += delta;
+      for (const element of parser.push(delta)) {
+        const item = menuItemSchema.safeParse(element);
+        if (item.success) onItem(item.data);
+      }
+    }
 
-    // Remove or escape control characters (0x00-0x1F except whitespace)
-    fixed = fixed.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+    return response;
+  }
 
-    // Fix unescaped newlines and tabs in strings
-    fixed = fixed.replace(/(?<!\\)\n/g, '\\n');
-    fixed = fixed.replace(/(?<!\\)\r/g, '\\r');
-    fixed = fixed.replace(/(?<!\\)\t/g, '\\t');
+  private toMenuItem(item: MenuItemResponse, dietaryProfile?: DietaryProfile): MenuItem {
+    const dietary = item.dietary ?? undefined;
+    return {
+      name: item.name,
+      originalName: item.originalName,
+      description: item.description,
+      price: item.price ?? undefined,
+      category: item.category,
+      page: item.page ?? undefined,
+      dietary,
+      // Without a profile there is nothing to judge against, whatever the model returned
+      suitability: hasDietaryProfile(dietaryProfile)
+        ? checkSuitability(item.suitability, dietary, dietaryProfile)
+        : undefined,
+    };
+  }
 
-    // Fix unescaped backslashes
-    fixed = fixed.replace(/(?<!\\)\\(?!["\\/bfnrt])/g, '\\\\');
+  /**
+   * Translates the names and descriptions of already-parsed items into another language,
+   * which is much cheaper than reading the menu again. Returns one entry per item, in
+   * order; null where the model skipped an item.
+   */
+  async translateItems(
+    items: MenuItem[],
+    targetLanguage: string,
+    sourceLanguage?: string,
+    signal?: AbortSignal
+  ): Promise<Array<ItemTranslation | null>> {
+    if (!this.isInitialized || !this.provider) {
+      await this.initialize();
+    }
 
-    // Fix trailing commas in arrays and objects
-    fixed = fixed.replace(/,(\s*[}\]])/g, '$1');
+    const translations: Array<ItemTranslation | null> = new Array(items.length).fill(null);
+    const limit = createLimiter(this.chunkConcurrency);
+    const batches: number[] = [];
+    for (let start = 0; start < items.length; start += this.ITEM_TRANSLATION_BATCH_SIZE) {
+      batches.push(start);
+    }
 
-    // Fix unescaped quotes in string values (but not in keys)
-    fixed = fixed.replace(/"([^"]*?)"/g, (match, content) => {
-      // Only escape if this appears to be a string value, not a key
-      if (content.includes('"')) {
-        const escaped = content.replace(/"/g, '\\"');
-        return `"${escaped}"`;
-      }
-      return match;
-    });
+    await Promise.all(batches.map((start) => limit(async () => {
+      throwIfAborted(signal);
+      const batch = items.slice(start, start + this.ITEM_TRANSLATION_BATCH_SIZE).map((item, offset) => ({
+        index: start + offset,
+        originalName: item.originalName,
+        name: item.name,
+        description: item.description,
+        reason: modelReason(item.suitability),
+      }));
+
+      const parsed = await this.requestValidated(
+        {
+          systemPrompt: 'You are a professional menu translator. Always respond with valid JSON only.',
+          userPrompt: `Translate the "name", "description" and "reason" of each restaurant menu item below into ${languageName(targetLanguage)}.
+The menu was originally in ${sourceLanguage || 'an unknown language'}; "originalName" is the name as printed on it, use it to get the dish right. Keep dish names diners would recognise (e.g. "Pizza Margherita") as they are.
+
+ITEMS:
+${JSON.stringify(batch, null, 2)}
+
+Return ONLY a JSON object of the form {"items": [{"index": 0, "name": "translated_name", "description": "translated_description", "reason": "translated_reason"}]} with one entry per item, keeping its index; "reason" is null where the item has none. No markdown, no other text.`,
+          temperature: 0.3,
+          maxTokens: 4000,
+          jsonMode: true,
+          responseSchema: { name: 'item_translations', schema: ITEM_TRANSLATIONS_JSON_SCHEMA },
+        },
+        (request) => this.provider!.complete(request, signal),
+        parseItemTranslationsResponse,
+        signal
+      );
 
-    // Fix missing commas between array elements
-    fixed = fixed.replace(/}(\s*){/g, '},$1{');
+      // Indices outside the batch would overwrite another batch's items
+      for (const { index, name, description, reason } of parsed.items) {
+        if (index >= start && index < start + batch.length) {
+          // A reason made up for an item that had none is dropped
+          translations[index] = reason && batch[index - start].reason ? { name, description, reason } : { name, description };
+        }
+      }
+    })));
 
-    return fixed;
+    return translations;
   }
 
-  private aggressiveJsonClean(jsonString: string): string {
-    let cleaned = jsonString;
-
-    // Remove all control characters
-    cleaned = cleaned.replace(/[\x00-\x1F\x7F]/g, ' ');
+  /**
+   * Splits OCR text into chunks of at most LLM_CHUNK_SIZE characters, breaking at blank lines
+   * where possible. Page markers are repeated at the top of each chunk so the model can
+   * still attribute items to their page.
+   */
+  splitIntoChunks(extractedText: string): string[] {
+    const units: Array<{ page?: number; text: string }> = [];
+    let page: number | undefined;
+
+    for (const section of extractedText.split(/\n\s*\n/)) {
+      const lines: string[] = [];
+      for (const line of section.split('\n')) {
+        const marker = line.match(/^=== PAGE (\d+) ===$/);
+        if (marker) {
+          if (lines.length > 0) units.push({ page, text: lines.splice(0).join('\n') });
+          page = Number(marker[1]);
+        } else if (line.trim()) {
+          lines.push(line);
+        }
+      }
+      if (lines.length === 0) continue;
+
+      const text = lines.join('\n');
+      if (text.length <= this.chunkSize) {
+        units.push({ page, text });
+      } else {
+        // An oversized paragraph is split between lines instead
+        lines.forEach((line) => units.push({ page, text: line }));
+      }
+    }
 
-    // Clean up multiple spaces
-    cleaned = cleaned.replace(/\s+/g, ' ');
+    const chunks: string[] = [];
+    let current = '';
+    let currentPage: number | undefined;
 
-    // Try to fix broken string values by ensuring they're properly quoted
-    cleaned = cleaned.replace(/:\s*([^",{\[\]\s]+)(?=\s*[,}])/g, ': "$1"');
+    for (const unit of units) {
+      const marker = unit.page !== undefined && unit.page !== currentPage ? `=== PAGE ${unit.page} ===\n` : '';
+      const addition = `${marker}${unit.text}`;
 
-    // Fix common quote issues
-    cleaned = cleaned.replace(/'/g, '"');
+      if (current && current.length + addition.length + 2 > this.chunkSize) {
+        chunks.push(current);
+        current = unit.page !== undefined ? `=== PAGE ${unit.page} ===\n${unit.text}` : unit.text;
+      } else {
+        current = current ? `${current}\n\n${addition}` : addition;
+      }
+      currentPage = unit.page;
+    }
+    if (current) chunks.push(current);
 
-    return cleaned;
+    return chunks.length > 0 ? chunks : [extractedText];
   }
 
-  private manualJsonReconstruction(jsonString: string): any {
-    // Last resort: try to extract the essential information manually
-    console.log('Attempting manual JSON reconstruction...');
+  // Identifies an item across chunks, retries and streamed output
+  itemKey(item: MenuItem): string {
+    return `${normalizeForMatching(item.originalName)}|${(item.price || '').replace(/\D/g, '')}`;
+  }
 
-    const result: { sourceLanguage: string; items: MenuItem[] } = {
-      sourceLanguage: 'English',
-      items: [],
-    };
+  /**
+   * Translates long menus as parallel chunks, reporting each chunk's items through `onChunk`
+   * as soon as it finishes. Short menus go through a single request as before. A failed
+   * chunk is skipped unless every chunk fails.
+   */
+  async translateMenuChunked(
+    extractedText: string,
+    targetLanguage: string,
+    options: ChunkedTranslationOptions = {}
+  ): Promise<LLMResult> {
+    const { maxRetries = 3, signal, onChunk, onItem, onRetract, ...requestOptions } = options;
+    const startTime = Date.now();
+    const chunks = this.splitIntoChunks(extractedText);
+
+    // Retries and re-asks stream their items again; each is reported once. Kept by key so a
+    // retraction only withdraws what this particular reply reported.
+    const reportedItems = new Map<string, MenuItem>();
+    const reportItem = onItem && ((item: MenuItem) => {
+      const key = this.itemKey(item);
+      if (reportedItems.has(key)) return;
+      reportedItems.set(key, item);
+      onItem(item);
+    });
+    const retractItems = onRetract && ((items: MenuItem[]) => {
+      const retracted = items.filter((item) => reportedItems.get(this.itemKey(item)) === item);
+      if (retracted.length === 0) return;
+      retracted.forEach((item) => reportedItems.delete(this.itemKey(item)));
+      onRetract(retracted);
+    });
+    const chunkOptions = { ...requestOptions, signal, onItem: reportItem, onRetract: retractItems };
 
-    // Try to extract sourceLanguage
-    const langMatch = jsonString.match(/"sourceLanguage"\s*:\s*"([^"]+)"/);
-    if (langMatch) {
-      result.sourceLanguage = langMatch[1];
+    if (chunks.length === 1) {
+      return this.retryTranslation(extractedText, targetLanguage, maxRetries, chunkOptions);
     }
 
-    // Try to extract individual menu items using pattern matching
-    try {
-      // Look for item patterns like: "name": "...", "originalName": "...", "description": "...", "price": "..."
-      const itemPatterns = jsonString.match(/\{[^}]*"name"\s*:[^}]*\}/g);
-      
-      if (itemPatterns) {
-        result.items = itemPatterns.map((itemStr: string, index: number) => {
-          const nameMatch = itemStr.match(/"name"\s*:\s*"([^"]+)"/);
-          const originalNameMatch = itemStr.match(/"originalName"\s*:\s*"([^"]+)"/);
-          const descriptionMatch = itemStr.match(/"description"\s*:\s*"([^"]+)"/);
-          const priceMatch = itemStr.match(/"price"\s*:\s*"([^"]+)"/);
-          const categoryMatch = itemStr.match(/"category"\s*:\s*"([^"]+)"/);
-
-          return {
-            name: nameMatch ? nameMatch[1] : `Item ${index + 1}`,
-            originalName: originalNameMatch ? originalNameMatch[1] : `Item ${index + 1}`,
-            description: descriptionMatch ? descriptionMatch[1] : '',
-            price: priceMatch ? priceMatch[1] : undefined,
-            category: categoryMatch ? categoryMatch[1] : 'Other'
-          };
-        }).filter((item: any) => item.name && item.originalName);
+    console.log(`Translating long menu in ${chunks.length} chunks`);
+    const results: Array<LLMResult | null> = new Array(chunks.length).fill(null);
+    let lastError: Error | null = null;
+    let nextChunk = 0;
+
+    const translateNextChunks = async () => {
+      while (nextChunk < chunks.length) {
+        const index = nextChunk++;
+        try {
+          const result = await this.retryTranslation(chunks[index], targetLanguage, maxRetries, chunkOptions);
+          results[index] = result;
+
+          const newItems = result.translatedMenu.filter((item) => {
+            const key = this.itemKey(item);
+            if (reportedItems.has(key)) return false;
+            reportedItems.set(key, item);
+            return true;
+          });
+          onChunk?.({ chunk: index + 1, totalChunks: chunks.length, newItems, sourceLanguage: result.sourceLanguage });
+        } catch (error) {
+          throwIfAborted(signal);
+          lastError = error instanceof Error ? error : new Error('Unknown error');
+          console.warn(`Translation of chunk ${index + 1}/${chunks.length} failed:`, lastError.message);
+        }
       }
-    } catch (error) {
-      console.warn('Pattern matching failed in manual reconstruction:', error);
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.chunkConcurrency, chunks.length) }, translateNextChunks)
+    );
+
+    const succeeded = results.filter((result): result is LLMResult => result !== null);
+    if (succeeded.length === 0) {
+      throw lastError || new Error('All translation chunks failed');
     }
 
-    console.log(`Manual reconstruction extracted ${result.items.length} items`);
-    return result;
+    // Merge in menu order, keeping the first occurrence of repeated items
+    const seenKeys = new Set<string>();
+    const translatedMenu = succeeded
+      .flatMap((result) => result.translatedMenu)
+      .filter((item) => {
+        const key = this.itemKey(item);
+        if (seenKeys.has(key)) return false;
+        seenKeys.add(key);
+        return true;
+      });
+
+    // Chunks may disagree (e.g. a chunk of only prices); take the most common answer
+    const languageVotes = new Map<string, number>();
+    succeeded
+      .filter((result) => result.sourceLanguage !== 'unknown')
+      .forEach((result) => languageVotes.set(result.sourceLanguage, (languageVotes.get(result.sourceLanguage) || 0) + 1));
+    const sourceLanguage = [...languageVotes.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'unknown';
+
+    return {
+      translatedMenu,
+      sourceLanguage,
+      targetLanguage,
+      processingTime: Date.now() - startTime,
+    };
   }
 
   async retryTranslation(
     extractedText: string,
     targetLanguage: string,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    options: MenuRequestOptions = {}
   ): Promise<LLMResult> {
+    const { signal } = options;
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         console.log(`Translation attempt ${attempt}/${maxRetries}`);
-        return await this.translateMenu(extractedText, targetLanguage);
+        return await this.translateMenu(extractedText, targetLanguage, options);
       } catch (error) {
+        // No point retrying a cancelled job
+        throwIfAborted(signal);
+
         lastError = error instanceof Error ? error : new Error('Unknown error');
         console.warn(
           `Translation attempt ${attempt} failed:`,
@@ -361,7 +758,7 @@ IMPORTANT:
         if (attempt < maxRetries) {
           // Wait before retrying (exponential backoff)
           const delay = Math.pow(2, attempt) * 1000;
-          await new Promise((resolve) => setTimeout(resolve, delay));
+          await sleep(delay, signal);
         }
       }
     }
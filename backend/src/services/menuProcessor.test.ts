@@ -0,0 +1,245 @@
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { MenuProcessor } from './menuProcessor';
+import { ocrService, OCRResult } from './ocrService';
+import { llmService, ChunkedTranslationOptions } from './llmService';
+import { imageGenService } from './imageGenService';
+import { StubProvider } from './llmProviders';
+import { jobService } from './jobService';
+import { websocketService } from './websocketService';
+import { MenuItem, OCRLine, OCRWord } from '../types';
+import { ImageGeneratedData, TranslationCompleteData } from '../types/websocket';
+
+const menuPhoto = fs.readFileSync(path.join(__dirname, '../../../menu-imags/menu1.jpg'));
+
+function word(text: string, x0: number, x1: number, y0: number, confidence = 92): OCRWord {
+  return { text, confidence, bbox: { x0, y0, x1, y1: y0 + 30 } };
+}
+
+function line(words: OCRWord[]): OCRLine {
+  return {
+    text: words.map((entry) => entry.text).join(' '),
+    confidence: 90,
+    bbox: {
+      x0: words[0].bbox.x0,
+      y0: words[0].bbox.y0,
+      x1: words[words.length - 1].bbox.x1,
+      y1: words[0].bbox.y1,
+    },
+    words,
+  };
+}
+
+// What Tesseract reads off a photo of the stub provider's menu
+const ocrResult: OCRResult = {
+  text: 'MENU\nPizza Margherita ...... €9.50\nTiramisù ...... €6.00',
+  confidence: 88,
+  processingTime: 1200,
+  language: 'ita+eng',
+  preprocessed: true,
+  lines: [
+    line([word('MENU', 300, 500, 40)]),
+    line([word('Pizza', 100, 180, 200), word('Margherita', 190, 330, 200), word('......', 340, 400, 200, 40), word('€9.50', 410, 480, 200)]),
+    line([word('Tiramisù', 100, 220, 260, 45), word('......', 230, 400, 260, 40), word('€6.00', 410, 480, 260)]),
+  ],
+  imageWidth: 1200,
+  imageHeight: 1600,
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+async function processPhoto(socketId: string, generateImages: boolean): Promise<string> {
+  mock.method(ocrService, 'extractText', async () => ocrResult);
+  const job = await jobService.createJob({ socketId, targetLanguage: 'en', generateImages });
+  await MenuProcessor.processMenuAsync({
+    pages: [{ buffer: menuPhoto, mimetype: 'image/jpeg' }],
+    targetLanguage: 'en',
+    generateImages,
+    extractionMode: 'ocr',
+    socketId,
+    jobId: job.id,
+  });
+  return job.id;
+}
+
+test('items of an OCR\'d photo point at where their name and price were printed', async () => {
+  llmService.setProvider(new StubProvider(undefined));
+  const completed = mock.method(websocketService, 'emitTranslationComplete', () => undefined);
+
+  const jobId = await processPhoto('menu-test', false);
+
+  assert.equal(completed.mock.callCount(), 1);
+  const [, data] = completed.mock.calls[0].arguments as [string, TranslationCompleteData];
+  const [pizza, tiramisu] = data.translatedMenu;
+
+  assert.deepEqual(pizza.sourceRegion, {
+    bbox: { x0: 100, y0: 200, x1: 330, y1: 230 },
+    priceBbox: { x0: 410, y0: 200, x1: 480, y1: 230 },
+    imageWidth: 1200,
+    imageHeight: 1600,
+    confidence: 92,
+    lowConfidence: false,
+  });
+  assert.equal(tiramisu.sourceRegion?.lowConfidence, true);
+  assert.deepEqual(tiramisu.sourceRegion?.bbox, { x0: 100, y0: 260, x1: 220, y1: 290 });
+
+  // Kept on the job for clients that reconnect later
+  const stored = await jobService.getJob(jobId);
+  assert.deepEqual(stored?.result?.translatedMenu[0].sourceRegion, pizza.sourceRegion);
+});
+
+test('items without a matching OCR line get no source region', () => {
+  const items: MenuItem[] = [{ name: 'Soup', originalName: 'Zuppa del giorno', description: '' }];
+  MenuProcessor.attachSourceRegions(items, [{ page: 1, ...ocrResult }]);
+  assert.equal(items[0].sourceRegion, undefined);
+});
+
+test('a short name finds its own line rather than a longer one it is part of', () => {
+  const lines = [
+    line([word('Steak', 100, 180, 200), word('frites', 190, 280, 200), word('18.00', 410, 480, 200)]),
+    line([word('Fried', 100, 170, 260), word('rice', 180, 240, 260), word('with', 250, 300, 260), word('prawns', 310, 400, 260), word('12.00', 410, 480, 260)]),
+    line([word('Tea', 100, 150, 320), word('3.00', 410, 480, 320)]),
+    line([word('Rice', 100, 160, 380), word('4.00', 410, 480, 380)]),
+  ];
+  const items: MenuItem[] = [
+    { name: 'Tea', originalName: 'Tea', description: '', price: '3.00' },
+    { name: 'Rice', originalName: 'Rice', description: '', price: '4.00' },
+  ];
+
+  MenuProcessor.attachSourceRegions(items, [{ page: 1, text: '', confidence: 90, lines, imageWidth: 1200, imageHeight: 1600 }]);
+
+  assert.deepEqual(items[0].sourceRegion?.bbox, { x0: 100, y0: 320, x1: 150, y1: 350 });
+  assert.deepEqual(items[1].sourceRegion?.bbox, { x0: 100, y0: 380, x1: 160, y1: 410 });
+});
+
+test('a failed translation stops the images of items it already streamed', async () => {
+  const streamedItem: MenuItem = { name: 'Margherita Pizza', originalName: 'Pizza Margherita', description: '', price: '€9.50' };
+  let imageSignal: AbortSignal | undefined;
+  let finishImage: (() => void) | undefined;
+  // A backend that ignores the signal and finishes whenever it likes
+  mock.method(imageGenService, 'generateWithFallback', (item: MenuItem, _retries: number, _backend: string, signal: AbortSignal) => {
+    imageSignal = signal;
+    return new Promise((resolve) => {
+      finishImage = () => resolve({ imageUrl: '/images/pizza.png', itemName: item.name, processingTime: 1 });
+    });
+  });
+  mock.method(llmService, 'translateMenuChunked', async (_text: string, _language: string, options: ChunkedTranslationOptions) => {
+    options.onItem!(streamedItem);
+    while (!finishImage) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    throw new Error('Model went away');
+  });
+  const events: string[] = [];
+  mock.method(websocketService, 'emitImageGenerated', () => events.push('image_generated'));
+  mock.method(websocketService, 'emitTranslationError', () => events.push('translation_error'));
+
+  await processPhoto('menu-failed', true);
+  assert.equal(imageSignal?.aborted, true);
+
+  finishImage!();
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.deepEqual(events, ['translation_error']);
+});
+
+test('a streamed item from a rejected reply is withdrawn and its image stopped', async () => {
+  const rejectedItem: MenuItem = { name: 'Pizza', originalName: 'Pizza Marinara', description: '', price: '€7.00' };
+  const imageSignals = new Map<string, AbortSignal>();
+  let abortedOnRetract: boolean | undefined;
+  mock.method(imageGenService, 'generateWithFallback', (item: MenuItem, _retries: number, _backend: string, signal: AbortSignal) => {
+    imageSignals.set(item.originalName, signal);
+    return new Promise(() => undefined);
+  });
+  mock.method(llmService, 'translateMenuChunked', async (_text: string, _language: string, options: ChunkedTranslationOptions) => {
+    options.onItem!(rejectedItem);
+    await new Promise((resolve) => setImmediate(resolve));
+    options.onRetract!([rejectedItem]);
+    abortedOnRetract = imageSignals.get('Pizza Marinara')?.aborted;
+    throw new Error('Model went away');
+  });
+  const retracted = mock.method(websocketService, 'emitTranslationRetracted', () => undefined);
+
+  await processPhoto('menu-retracted', true);
+
+  assert.deepEqual(retracted.mock.calls.map((call) => call.arguments[1]), [{ indexes: [0] }]);
+  // Stopped by the retraction itself, before the job as a whole failed
+  assert.equal(abortedOnRetract, true);
+});
+
+test('each streamed item\'s image is sent once', async () => {
+  llmService.setProvider(new StubProvider(undefined));
+  mock.method(imageGenService, 'generateWithFallback', async (item: MenuItem) => (
+    { imageUrl: `/images/${item.originalName}.png`, itemName: item.name, processingTime: 1 }
+  ));
+  const images = mock.method(websocketService, 'emitImageGenerated', () => undefined);
+  const completed = mock.method(websocketService, 'emitTranslationComplete', () => undefined);
+
+  await processPhoto('menu-streamed', true);
+
+  const sent = images.mock.calls.map((call) => call.arguments[1] as ImageGeneratedData);
+  assert.deepEqual(sent.map((image) => image.imageUrl).sort(), ['/images/Pizza Margherita.png', '/images/Tiramisù.png']);
+  // Whatever went out before translation_complete came back on its items
+  const [, data] = completed.mock.calls[0].arguments as [string, TranslationCompleteData];
+  for (const image of sent.filter((entry) => entry.streamIndex !== undefined)) {
+    assert.ok(data.translatedMenu.some((item) => item.imageUrl === image.imageUrl));
+  }
+});
+
+test('translating a failed job again keeps its dietary profile and home currency', async () => {
+  llmService.setProvider(new StubProvider(undefined));
+  const completed = mock.method(websocketService, 'emitTranslationComplete', () => undefined);
+  const job = await jobService.createJob({
+    socketId: 'menu-retranslate',
+    targetLanguage: 'en',
+    generateImages: false,
+    dietaryProfile: { allergies: ['milk'], restrictions: [], dislikes: [] },
+    homeCurrency: 'USD',
+  });
+  await jobService.updateJob(job.id, (stored) => {
+    stored.stage = 'failed';
+    stored.ocr = { text: ocrResult.text, confidence: ocrResult.confidence };
+  });
+
+  await MenuProcessor.retranslateJobAsync({ jobId: job.id, targetLanguage: 'de', socketId: 'menu-retranslate' });
+
+  const [, data] = completed.mock.calls[0].arguments as [string, TranslationCompleteData];
+  const [pizza] = data.translatedMenu;
+  assert.equal(pizza.suitability?.verdict, 'avoid');
+  assert.equal(pizza.parsedPrice?.converted?.currency, 'USD');
+});
+
+test('translating a finished menu again translates the model\'s suitability reasons too', async () => {
+  mock.method(llmService, 'translateItems', async (items: MenuItem[]) => items.map((item) => ({
+    name: `DE ${item.name}`,
+    description: `DE ${item.description}`,
+    reason: item.suitability && !item.suitability.reasonCode ? `DE ${item.suitability.reason}` : undefined,
+  })));
+  const completed = mock.method(websocketService, 'emitTranslationComplete', () => undefined);
+  const job = await jobService.createJob({ socketId: 'menu-retranslate-reasons', targetLanguage: 'en', generateImages: false });
+  const items: MenuItem[] = [
+    { name: 'Salad', originalName: 'Insalata', description: 'Leaves', suitability: { verdict: 'safe', reason: 'No nuts listed' } },
+    {
+      name: 'Pesto',
+      originalName: 'Pesto',
+      description: 'Basil and pine nuts',
+      suitability: { verdict: 'avoid', reason: 'Likely contains nuts', reasonCode: 'contains_allergens', reasonDetails: ['nuts'] },
+    },
+  ];
+  await jobService.updateJob(job.id, (stored) => {
+    stored.stage = 'completed';
+    stored.result = { success: true, originalText: '', translatedMenu: items, sourceLanguage: 'Italian', targetLanguage: 'en', processingTime: 1 };
+  });
+
+  await MenuProcessor.retranslateJobAsync({ jobId: job.id, targetLanguage: 'de', socketId: 'menu-retranslate-reasons' });
+
+  const [, data] = completed.mock.calls[0].arguments as [string, TranslationCompleteData];
+  const [salad, pesto] = data.translatedMenu;
+  assert.equal(salad.suitability?.reason, 'DE No nuts listed');
+  assert.deepEqual(salad.translations?.en, { name: 'Salad', description: 'Leaves', reason: 'No nuts listed' });
+  // Coded reasons are worded by the client in whatever language it shows
+  assert.deepEqual(pesto.suitability, items[1].suitability);
+});
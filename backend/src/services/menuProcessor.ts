@@ -1,43 +1,498 @@
-import { ocrService } from './ocrService';
-import { llmService } from './llmService';
+import { ocrService, OCRStep } from './ocrService';
+import { llmService, languageName, LLMResult } from './llmService';
 import { imageGenService } from './imageGenService';
+import { imageCacheService } from './imageCacheService';
+import { fallbackImageService } from './fallbackImageService';
 import { websocketService } from './websocketService';
+import { jobService } from './jobService';
+import { pdfService } from './pdfService';
+import { currencyService } from './currencyService';
+import { modelReason } from './dietaryProfile';
+import { BoundingBox, DietaryProfile, Job, MenuItem, OCRLine, SourceRegion, TranslationResponse } from '../types';
+import { ImageGeneratedData, OCRPageData } from '../types/websocket';
+import { CANCELLED_MESSAGE, sleep, throwIfAborted } from '../utils/abortUtils';
+import { createLimiter } from '../utils/concurrency';
+import { normalizeForMatching, textSimilarity } from '../utils/textMatching';
+import { parsePrice } from '../utils/priceParsing';
 
-export interface ProcessMenuRequest {
-  imageBuffer: Buffer;
+export interface MenuPageInput {
+  buffer: Buffer;
   mimetype: string;
+}
+
+export const EXTRACTION_MODES = ['ocr', 'vision'] as const;
+export type ExtractionMode = typeof EXTRACTION_MODES[number];
+
+export interface ProcessMenuRequest {
+  pages: MenuPageInput[];
   targetLanguage: string;
+  // Further languages each item's name and description are translated into
+  additionalLanguages?: string[];
   generateImages: boolean;
+  imageBackend?: string;
+  // Tesseract language code(s) or 'auto' to detect the script per page
+  ocrLanguage?: string;
+  // Overrides OCR_PREPROCESS, e.g. to compare confidence with and without preprocessing
+  preprocessImages?: boolean;
+  // Defaults to MENU_EXTRACTION_MODE, then 'ocr'
+  extractionMode?: ExtractionMode;
+  // Items are marked safe/caution/avoid for this diner
+  dietaryProfile?: DietaryProfile;
+  // ISO 4217 code to convert prices into
+  homeCurrency?: string;
   socketId: string;
+  jobId: string;
+}
+
+export interface RetranslateJobRequest {
+  jobId: string;
+  targetLanguage: string;
+  // Room the translation_* events go to
+  socketId: string;
+}
+
+// OCR lines scoring below this are flagged so the UI can warn the name may be misread
+const LOW_CONFIDENCE_THRESHOLD = 60;
+// Minimum similarity between an item's original name and an OCR line to call it a match
+const MIN_LINE_MATCH_SCORE = 0.6;
+// Images generated at once, to stay under image API rate limits
+const IMAGE_CONCURRENCY = 2;
+
+interface ItemImageOutcome {
+  success: boolean;
+  data: ImageGeneratedData;
 }
 
 export class MenuProcessor {
+  /**
+   * Joins per-page OCR text with page markers the LLM prompt knows how to read, so each
+   * item can be attributed to its page. Confidence is averaged over pages that had text.
+   */
+  static mergePages(pageResults: OCRPageData[]): { text: string; confidence: number } {
+    if (pageResults.length === 1) {
+      return { text: pageResults[0].text, confidence: pageResults[0].confidence };
+    }
+
+    const readablePages = pageResults.filter((page) => page.text.length > 0);
+    const text = readablePages
+      .map((page) => `=== PAGE ${page.page} ===\n${page.text}`)
+      .join('\n\n');
+    const confidence = readablePages.length > 0
+      ? readablePages.reduce((sum, page) => sum + page.confidence, 0) / readablePages.length
+      : 0;
+
+    return { text, confidence };
+  }
+
+  /**
+   * Reads image pages with the vision model. Returns null (after telling the client) when
+   * the model fails or finds nothing, so the caller can fall back to OCR.
+   */
+  private static async extractWithVision(
+    ocrPages: Array<{ buffer?: Buffer; mimetype: string }>,
+    targetLanguage: string,
+    dietaryProfile: DietaryProfile | undefined,
+    socketId: string,
+    signal: AbortSignal
+  ): Promise<LLMResult | null> {
+    websocketService.emitOCRProgress(socketId, {
+      step: 'vision_extraction',
+      message: ocrPages.length > 1
+        ? `👁️ Reading ${ocrPages.length} menu pages with vision model...`
+        : '👁️ Reading menu with vision model...'
+    });
+
+    try {
+      const result = await llmService.extractMenuFromImages(
+        ocrPages.map(ocrPage => ({ data: ocrPage.buffer!, mimetype: ocrPage.mimetype })),
+        targetLanguage,
+        { signal, dietaryProfile }
+      );
+      if (result.translatedMenu.length > 0) {
+        return result;
+      }
+      console.warn('Vision model found no menu items, falling back to OCR');
+    } catch (error) {
+      if (signal.aborted) throw error;
+      console.warn('Vision extraction failed, falling back to OCR:', error);
+    }
+
+    websocketService.emitOCRProgress(socketId, {
+      step: 'vision_fallback',
+      message: '🔁 Vision model could not read the menu, falling back to OCR...'
+    });
+    return null;
+  }
+
+  /**
+   * Adds the job's other target languages to each item's `translations` and emits each
+   * language as it finishes. A language that fails is reported and left out, without
+   * failing the job. Returns the languages that were translated, in request order.
+   */
+  private static async translateAdditionalLanguages(
+    items: MenuItem[],
+    sourceLanguage: string,
+    languages: string[],
+    socketId: string,
+    signal: AbortSignal
+  ): Promise<string[]> {
+    const translated = new Set<string>();
+
+    await Promise.all(languages.map(async (language) => {
+      try {
+        const translations = await llmService.translateItems(items, language, sourceLanguage, signal);
+        translations.forEach((translation, index) => {
+          if (translation) {
+            items[index].translations = { ...items[index].translations, [language]: translation };
+          }
+        });
+        translated.add(language);
+        websocketService.emitTranslationLanguage(socketId, { targetLanguage: language, translations });
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.warn(`Translation into ${language} failed:`, error);
+        websocketService.emitTranslationLanguage(socketId, {
+          targetLanguage: language,
+          translations: [],
+          error: error instanceof Error ? error.message : 'Translation failed',
+        });
+      }
+    }));
+
+    return languages.filter((language) => translated.has(language));
+  }
+
+  /**
+   * Vision mode has no OCR text, so the original-language text is rebuilt from the items.
+   * Like PDF text layers, it isn't a recognition guess, hence full confidence.
+   */
+  static visionPageResults(items: MenuItem[], pageCount: number): OCRPageData[] {
+    return Array.from({ length: pageCount }, (_, i) => ({
+      page: i + 1,
+      text: items
+        .filter(item => (item.page ?? 1) === i + 1)
+        .map(item => (item.price ? `${item.originalName} ${item.price}` : item.originalName))
+        .join('\n'),
+      confidence: 100,
+      source: 'vision' as const,
+    }));
+  }
+
+  /**
+   * Finds the OCR line each item's original name was read from and records its position,
+   * narrowed to the words of the name so prices and dot leaders are left out.
+   */
+  static attachSourceRegions(items: MenuItem[], pageResults: OCRPageData[]): void {
+    for (const item of items) {
+      const page = pageResults.find(result => result.page === (item.page ?? 1));
+      if (!page?.lines?.length || !page.imageWidth || !page.imageHeight) continue;
+
+      // Among equally good lines the one closest in length to the name is least likely to
+      // be a different dish that merely mentions it
+      const name = normalizeForMatching(item.originalName);
+      let bestLine: OCRLine | null = null;
+      let bestScore = 0;
+      let bestLengthGap = Infinity;
+      for (const line of page.lines) {
+        const score = textSimilarity(item.originalName, line.text);
+        const lengthGap = Math.abs(normalizeForMatching(line.text).length - name.length);
+        if (score > bestScore || (score > 0 && score === bestScore && lengthGap < bestLengthGap)) {
+          bestScore = score;
+          bestLine = line;
+          bestLengthGap = lengthGap;
+        }
+      }
+      if (!bestLine || bestScore < MIN_LINE_MATCH_SCORE) continue;
+
+      const nameWords = bestLine.words.filter(word => {
+        const normalized = normalizeForMatching(word.text);
+        return normalized.length > 0 && name.includes(normalized);
+      });
+      const regionWords = nameWords.length > 0 ? nameWords : bestLine.words;
+      const confidence = regionWords.length > 0
+        ? regionWords.reduce((sum, word) => sum + word.confidence, 0) / regionWords.length
+        : bestLine.confidence;
+
+      const region: SourceRegion = {
+        bbox: nameWords.length > 0 ? MenuProcessor.unionBox(nameWords.map(word => word.bbox)) : bestLine.bbox,
+        imageWidth: page.imageWidth,
+        imageHeight: page.imageHeight,
+        confidence: Math.round(confidence),
+        lowConfidence: confidence < LOW_CONFIDENCE_THRESHOLD,
+      };
+
+      // Prices are matched on their digits, which survive OCR better than currency symbols
+      const priceDigits = item.price?.replace(/\D/g, '');
+      if (priceDigits) {
+        const priceWords = bestLine.words.filter(word => {
+          const digits = word.text.replace(/\D/g, '');
+          return !nameWords.includes(word) && digits.length > 0 && priceDigits.includes(digits);
+        });
+        if (priceWords.length > 0) {
+          region.priceBbox = MenuProcessor.unionBox(priceWords.map(word => word.bbox));
+        }
+      }
+
+      item.sourceRegion = region;
+    }
+  }
+
+  /**
+   * Generates one item's image, substituting a placeholder when generation fails so one bad
+   * item doesn't hold up the rest. Only cancellation is rethrown.
+   */
+  private static async generateItemImage(
+    menuItem: MenuItem,
+    imageBackend: string | undefined,
+    signal: AbortSignal
+  ): Promise<ItemImageOutcome> {
+    try {
+      const itemImageResult = await imageGenService.generateWithFallback(menuItem, 2, imageBackend, signal);
+      return {
+        success: true,
+        data: {
+          imageUrl: itemImageResult.imageUrl,
+          itemName: menuItem.name,
+          processingTime: itemImageResult.processingTime,
+        }
+      };
+    } catch (itemError) {
+      throwIfAborted(signal);
+      console.error(`Failed to generate image for ${menuItem.name}:`, itemError);
+      return {
+        success: false,
+        data: {
+          imageUrl: `https://via.placeholder.com/400x400/f0f0f0/333333?text=${encodeURIComponent(menuItem.name)}`,
+          itemName: menuItem.name,
+          processingTime: 0,
+          fallback: true,
+          error: 'Image generation failed, using placeholder'
+        }
+      };
+    }
+  }
+
+  /**
+   * Parses each item's price and, when the diner gave a home currency, converts it. Missing
+   * rates only cost the conversion, never the translation.
+   */
+  static async attachPrices(items: MenuItem[], sourceLanguage: string, homeCurrency?: string): Promise<void> {
+    let convert = !!homeCurrency;
+
+    for (const item of items) {
+      const parsedPrice = item.price ? parsePrice(item.price, sourceLanguage) : undefined;
+      if (!parsedPrice) continue;
+      item.parsedPrice = parsedPrice;
+
+      if (!convert || parsedPrice.currency === homeCurrency) continue;
+      try {
+        parsedPrice.converted = await currencyService.convert(parsedPrice, homeCurrency!);
+      } catch (error) {
+        console.warn('Price conversion failed, showing original prices only:', error);
+        convert = false;
+      }
+    }
+  }
+
+  private static unionBox(boxes: BoundingBox[]): BoundingBox {
+    return {
+      x0: Math.min(...boxes.map(box => box.x0)),
+      y0: Math.min(...boxes.map(box => box.y0)),
+      x1: Math.max(...boxes.map(box => box.x1)),
+      y1: Math.max(...boxes.map(box => box.y1)),
+    };
+  }
+
   static async processMenuAsync(request: ProcessMenuRequest): Promise<void> {
-    const { imageBuffer, mimetype, targetLanguage, generateImages, socketId } = request;
+    const { pages, targetLanguage, additionalLanguages = [], generateImages, imageBackend, ocrLanguage = 'auto', preprocessImages, dietaryProfile, homeCurrency, socketId, jobId } = request;
+    const extractionMode = request.extractionMode
+      ?? (process.env.MENU_EXTRACTION_MODE === 'vision' ? 'vision' : 'ocr');
     const startTime = Date.now();
     let ocrTime = 0;
     let translationTime = 0;
     let imageGenTime = 0;
+    let originalText = '';
+    let ocrConfidence: number | undefined;
+
+    const failJob = (error: string) => {
+      // Nothing the run started should report back after the failure
+      jobService.abortRun(jobId);
+      return jobService.updateJob(jobId, (job) => {
+        job.stage = 'failed';
+        job.error = error;
+        job.result = {
+          success: false,
+          originalText,
+          translatedMenu: [],
+          targetLanguage,
+          confidence: ocrConfidence,
+          processingTime: Date.now() - startTime,
+          error,
+        };
+      });
+    };
+
+    const signal = jobService.startRun(jobId);
+
+    const cancelJob = async () => {
+      let cancelledDuring: string = 'queued';
+      await jobService.updateJob(jobId, (job) => {
+        cancelledDuring = job.stage;
+        job.stage = 'cancelled';
+        job.error = CANCELLED_MESSAGE;
+        job.result = {
+          success: false,
+          originalText,
+          translatedMenu: [],
+          targetLanguage,
+          confidence: ocrConfidence,
+          processingTime: Date.now() - startTime,
+          error: CANCELLED_MESSAGE,
+        };
+        job.items.forEach((item) => {
+          if (item.status === 'pending' || item.status === 'generating') {
+            item.status = 'skipped';
+          }
+        });
+      });
+      console.log(`Job ${jobId} cancelled`);
+      websocketService.emitProcessingCancelled(socketId, {
+        jobId,
+        stage: cancelledDuring,
+        totalProcessingTime: Date.now() - startTime,
+      });
+    };
+
+    // Events from a previous job in this room are no longer worth replaying
+    websocketService.resetEventLog(socketId);
 
     try {
       // Step 1: OCR Processing
+      await jobService.updateJob(jobId, (job) => {
+        job.stage = 'ocr';
+      });
       websocketService.emitOCRStarted(socketId);
       const ocrStartTime = Date.now();
       
       try {
-        // Sub-step: Reading image
-        websocketService.emitOCRProgress(socketId, {
-          step: 'reading_image',
-          message: '📖 Reading menu image...'
-        });
-        
-        const ocrResult = await ocrService.extractText(imageBuffer, mimetype);
+        // PDFs expand into one entry per page; pages with an embedded text layer skip OCR
+        const ocrPages: Array<{ buffer?: Buffer; mimetype: string; text?: string }> = [];
+        for (const input of pages) {
+          if (input.mimetype !== 'application/pdf') {
+            ocrPages.push(input);
+            continue;
+          }
+
+          websocketService.emitOCRProgress(socketId, {
+            step: 'reading_pdf',
+            message: '📄 Reading PDF menu...'
+          });
+          const pdfPages = await pdfService.extractPages(input.buffer, signal);
+          pdfPages.forEach(pdfPage => {
+            ocrPages.push(pdfPage.text !== undefined
+              ? { text: pdfPage.text, mimetype: 'text/plain' }
+              : { buffer: pdfPage.image, mimetype: 'image/png' });
+          });
+        }
+
+        // Vision mode reads image pages with a multimodal model; OCR remains the fallback
+        let visionResult: LLMResult | null = null;
+        if (extractionMode === 'vision') {
+          if (ocrPages.some(ocrPage => ocrPage.text !== undefined)) {
+            console.log('PDF has an embedded text layer, skipping vision extraction');
+          } else {
+            visionResult = await MenuProcessor.extractWithVision(ocrPages, targetLanguage, dietaryProfile, socketId, signal);
+          }
+        }
+
+        const pageResults: OCRPageData[] = visionResult
+          ? MenuProcessor.visionPageResults(visionResult.translatedMenu, ocrPages.length)
+          : [];
+
+        if (!visionResult) {
+          for (let i = 0; i < ocrPages.length; i++) {
+            throwIfAborted(signal);
+            const ocrPage = ocrPages[i];
+
+            if (ocrPage.text !== undefined) {
+              pageResults.push({ page: i + 1, text: ocrPage.text, confidence: 100, source: 'pdf_text' });
+              continue;
+            }
+
+            try {
+              const pageLabel = ocrPages.length > 1 ? ` page ${i + 1} of ${ocrPages.length}` : '';
+              const pageProgress = {
+                current: i,
+                total: ocrPages.length,
+                percentage: Math.round((i / ocrPages.length) * 100)
+              };
+              const pageResult = await ocrService.extractText(ocrPage.buffer!, ocrPage.mimetype, {
+                signal,
+                language: ocrLanguage,
+                preprocess: preprocessImages,
+                onProgress: (step) => {
+                  // Sub-steps: preprocessing, script detection and reading (one set per page)
+                  const messages: Record<OCRStep, string> = {
+                    preprocessing: `🧹 Cleaning up menu image${pageLabel}...`,
+                    detecting_script: `🔤 Detecting menu language${pageLabel}...`,
+                    recognizing: ocrPages.length > 1
+                      ? `📖 Reading menu page ${i + 1} of ${ocrPages.length}...`
+                      : '📖 Reading menu image...',
+                  };
+                  websocketService.emitOCRProgress(socketId, {
+                    step: step === 'recognizing' ? 'reading_image' : step,
+                    message: messages[step],
+                    progress: pageProgress
+                  });
+                }
+              });
+              pageResults.push({
+                page: i + 1,
+                text: pageResult.text,
+                confidence: pageResult.confidence,
+                source: 'ocr',
+                language: pageResult.language,
+                detectedScript: pageResult.detectedScript,
+                preprocessed: pageResult.preprocessed,
+                lines: pageResult.lines,
+                imageWidth: pageResult.imageWidth,
+                imageHeight: pageResult.imageHeight,
+              });
+            } catch (pageError) {
+              // A blank or unreadable page shouldn't sink the rest of the menu
+              if (ocrPages.length === 1 || signal.aborted) throw pageError;
+              console.warn(`OCR failed for page ${i + 1}:`, pageError);
+              pageResults.push({ page: i + 1, text: '', confidence: 0, source: 'ocr' });
+            }
+          }
+        }
+
+        const ocrResult = MenuProcessor.mergePages(pageResults);
+        const ocrLanguages = [...new Set(pageResults.map(page => page.language).filter(Boolean))];
+        const ocrLanguageUsed = ocrLanguages.length > 0 ? ocrLanguages.join(', ') : undefined;
+        const ocrPreprocessed = pageResults.some(page => page.preprocessed);
         ocrTime = Date.now() - ocrStartTime;
+        originalText = ocrResult.text;
+        ocrConfidence = ocrResult.confidence;
+
+        await jobService.updateJob(jobId, (job) => {
+          job.ocr = {
+            text: ocrResult.text,
+            confidence: ocrResult.confidence,
+            language: ocrLanguageUsed,
+            preprocessed: ocrPreprocessed,
+            extractionMode: visionResult ? 'vision' : 'ocr',
+          };
+        });
         
         websocketService.emitOCRComplete(socketId, {
           text: ocrResult.text,
           confidence: ocrResult.confidence,
           processingTime: ocrTime,
+          language: ocrLanguageUsed,
+          preprocessed: ocrPreprocessed,
+          extractionMode: visionResult ? 'vision' : 'ocr',
+          pages: pageResults,
         });
 
         // Check if we got readable text
@@ -46,6 +501,10 @@ export class MenuProcessor {
         }
 
         // Step 2: LLM Translation
+        throwIfAborted(signal);
+        await jobService.updateJob(jobId, (job) => {
+          job.stage = 'translation';
+        });
         websocketService.emitTranslationStarted(socketId);
         const translationStartTime = Date.now();
         
@@ -62,9 +521,109 @@ export class MenuProcessor {
             message: '🌍 Translating menu items...'
           });
           
-          const llmResult = await llmService.retryTranslation(ocrResult.text, targetLanguage);
+          // Images of streamed items start generating while the rest of the menu is
+          // translated; the image step below picks up the same promises
+          const imageLimiter = createLimiter(IMAGE_CONCURRENCY);
+          const itemImages = new Map<string, Promise<ItemImageOutcome>>();
+          // Stop the image of a streamed item that gets retracted
+          const imageControllers = new Map<string, AbortController>();
+          // Images already sent with a streamIndex, by item key
+          const deliveredImages = new Map<string, ItemImageOutcome['data']>();
+          let translationCompleted = false;
+          const startItemImage = (menuItem: MenuItem) => {
+            const key = llmService.itemKey(menuItem);
+            let outcome = itemImages.get(key);
+            if (!outcome) {
+              const controller = new AbortController();
+              const itemSignal = AbortSignal.any([signal, controller.signal]);
+              imageControllers.set(key, controller);
+              outcome = imageLimiter(() => {
+                // Queued tasks of a failed or cancelled job never start
+                throwIfAborted(itemSignal);
+                return MenuProcessor.generateItemImage(menuItem, imageBackend, itemSignal);
+              });
+              // Nobody awaits it if translation fails first
+              outcome.catch(() => undefined);
+              itemImages.set(key, outcome);
+            }
+            return outcome;
+          };
+
+          let translatedChunks = 0;
+          let streamedItems = 0;
+          const streamIndexes = new Map<MenuItem, number>();
+          const llmResult = visionResult
+            ?? await llmService.translateMenuChunked(ocrResult.text, targetLanguage, {
+              signal,
+              dietaryProfile,
+              onItem: (item) => {
+                const streamIndex = streamedItems++;
+                streamIndexes.set(item, streamIndex);
+                websocketService.emitTranslationItem(socketId, { item, index: streamIndex });
+                if (generateImages) {
+                  startItemImage(item).then(
+                    (outcome) => {
+                      // After translation_complete the image step sends it with its itemIndex
+                      if (signal.aborted || translationCompleted) return;
+                      deliveredImages.set(llmService.itemKey(item), outcome.data);
+                      websocketService.emitImageGenerated(socketId, { ...outcome.data, streamIndex });
+                    },
+                    () => undefined
+                  );
+                }
+              },
+              onRetract: (items) => {
+                websocketService.emitTranslationRetracted(socketId, {
+                  indexes: items.map(item => streamIndexes.get(item)!),
+                });
+                for (const item of items) {
+                  const key = llmService.itemKey(item);
+                  imageControllers.get(key)?.abort();
+                  imageControllers.delete(key);
+                  itemImages.delete(key);
+                  deliveredImages.delete(key);
+                }
+              },
+              // Long menus are translated in chunks; show each chunk's items as they arrive
+              onChunk: (chunk) => {
+                translatedChunks++;
+                websocketService.emitTranslationProgress(socketId, {
+                  step: 'translating_content',
+                  message: `🌍 Translated ${translatedChunks} of ${chunk.totalChunks} menu sections...`,
+                  progress: {
+                    current: translatedChunks,
+                    total: chunk.totalChunks,
+                    percentage: Math.round((translatedChunks / chunk.totalChunks) * 100)
+                  }
+                });
+                websocketService.emitTranslationPartial(socketId, {
+                  items: chunk.newItems,
+                  chunk: chunk.chunk,
+                  totalChunks: chunk.totalChunks,
+                  sourceLanguage: chunk.sourceLanguage,
+                });
+              }
+            });
+          MenuProcessor.attachSourceRegions(llmResult.translatedMenu, pageResults);
+          await MenuProcessor.attachPrices(llmResult.translatedMenu, llmResult.sourceLanguage, homeCurrency);
           translationTime = Date.now() - translationStartTime;
-          
+          const willGenerateImages = generateImages && llmResult.translatedMenu.length > 0;
+
+          await jobService.updateJob(jobId, (job) => {
+            job.items = llmResult.translatedMenu.map((item, index) => ({
+              index,
+              name: item.name,
+              status: willGenerateImages ? 'pending' : 'skipped',
+            }));
+          });
+
+          // Images the client already has travel with the items instead of being sent again
+          throwIfAborted(signal);
+          llmResult.translatedMenu.forEach((item) => {
+            const delivered = deliveredImages.get(llmService.itemKey(item));
+            if (delivered) item.imageUrl = delivered.imageUrl;
+          });
+          translationCompleted = true;
           websocketService.emitTranslationComplete(socketId, {
             translatedMenu: llmResult.translatedMenu,
             sourceLanguage: llmResult.sourceLanguage,
@@ -72,8 +631,25 @@ export class MenuProcessor {
             processingTime: translationTime,
           });
 
+          // Runs alongside image generation; only names and descriptions are translated
+          const additionalTranslation = additionalLanguages.length > 0 && llmResult.translatedMenu.length > 0
+            ? MenuProcessor.translateAdditionalLanguages(
+              llmResult.translatedMenu,
+              llmResult.sourceLanguage,
+              additionalLanguages,
+              socketId,
+              signal
+            )
+            : Promise.resolve([]);
+          // Nobody awaits it if image generation is cancelled first
+          additionalTranslation.catch(() => undefined);
+
           // Step 3: Image Generation (if requested)
-          if (generateImages && llmResult.translatedMenu.length > 0) {
+          if (willGenerateImages) {
+            throwIfAborted(signal);
+            await jobService.updateJob(jobId, (job) => {
+              job.stage = 'image_generation';
+            });
             websocketService.emitImageGenerationStarted(socketId);
             const imageGenStartTime = Date.now();
             
@@ -91,77 +667,73 @@ export class MenuProcessor {
             try {
               console.log(`Generating individual images for ${llmResult.translatedMenu.length} menu items...`);
               
-              // Generate images with parallel processing (batches of 2 to avoid rate limits)
-              const BATCH_SIZE = 2;
+              // Generate images with parallel processing (batches to avoid rate limits)
+              const BATCH_SIZE = IMAGE_CONCURRENCY;
               let processedCount = 0;
               
               for (let i = 0; i < llmResult.translatedMenu.length; i += BATCH_SIZE) {
+                // Skip the remaining batches once the job is cancelled
+                throwIfAborted(signal);
                 const batch = llmResult.translatedMenu.slice(i, i + BATCH_SIZE);
                 
                 // Process batch in parallel
                 const batchPromises = batch.map(async (menuItem, batchIndex) => {
                   const globalIndex = i + batchIndex;
-                  try {
-                    console.log(`Generating image ${globalIndex + 1}/${llmResult.translatedMenu.length} for: ${menuItem.name}`);
-                    
-                    // Sub-step progress for individual items
-                    websocketService.emitImageGenerationProgress(socketId, {
-                      step: 'generating_image',
-                      message: `✨ Generating image for ${menuItem.name}...`,
+                  console.log(`Generating image ${globalIndex + 1}/${llmResult.translatedMenu.length} for: ${menuItem.name}`);
+                  await jobService.updateJob(jobId, (job) => {
+                    job.items[globalIndex].status = 'generating';
+                  });
+                  
+                  // Sub-step progress for individual items
+                  websocketService.emitImageGenerationProgress(socketId, {
+                    step: 'generating_image',
+                    message: `✨ Generating image for ${menuItem.name}...`,
+                    progress: {
+                      current: processedCount,
+                      total: llmResult.translatedMenu.length,
+                      percentage: Math.round((processedCount / llmResult.translatedMenu.length) * 100)
+                    }
+                  });
+                  
+                  // Already started (or finished) if the item was streamed
+                  const outcome = await startItemImage(menuItem);
+                  processedCount++;
+                  
+                  return {
+                    index: globalIndex,
+                    delivered: deliveredImages.has(llmService.itemKey(menuItem)),
+                    success: outcome.success,
+                    data: {
+                      ...outcome.data,
+                      itemIndex: globalIndex,
                       progress: {
                         current: processedCount,
                         total: llmResult.translatedMenu.length,
                         percentage: Math.round((processedCount / llmResult.translatedMenu.length) * 100)
                       }
-                    });
-                    
-                    const itemImageResult = await imageGenService.generateWithFallback(menuItem);
-                    processedCount++;
-                    
-                    return {
-                      success: true,
-                      data: {
-                        imageUrl: itemImageResult.imageUrl,
-                        itemName: menuItem.name,
-                        processingTime: itemImageResult.processingTime,
-                        progress: {
-                          current: processedCount,
-                          total: llmResult.translatedMenu.length,
-                          percentage: Math.round((processedCount / llmResult.translatedMenu.length) * 100)
-                        }
-                      }
-                    };
-                  } catch (itemError) {
-                    console.error(`Failed to generate image for ${menuItem.name}:`, itemError);
-                    processedCount++;
-                    
-                    return {
-                      success: false,
-                      data: {
-                        imageUrl: `https://via.placeholder.com/400x400/f0f0f0/333333?text=${encodeURIComponent(menuItem.name)}`,
-                        itemName: menuItem.name,
-                        processingTime: 0,
-                        progress: {
-                          current: processedCount,
-                          total: llmResult.translatedMenu.length,
-                          percentage: Math.round((processedCount / llmResult.translatedMenu.length) * 100)
-                        },
-                        fallback: true,
-                        error: 'Image generation failed, using placeholder'
-                      }
-                    };
-                  }
+                    }
+                  };
                 });
                 
                 // Wait for batch to complete and send WebSocket updates
                 const batchResults = await Promise.all(batchPromises);
-                batchResults.forEach(result => {
+                throwIfAborted(signal);
+                await jobService.updateJob(jobId, (job) => {
+                  batchResults.forEach(result => {
+                    const itemState = job.items[result.index];
+                    itemState.status = result.success ? 'done' : 'failed';
+                    itemState.imageUrl = result.data.imageUrl;
+                    itemState.fallback = result.data.fallback;
+                    itemState.error = result.data.error;
+                  });
+                });
+                batchResults.filter(result => !result.delivered).forEach(result => {
                   websocketService.emitImageGenerated(socketId, result.data);
                 });
                 
                 // Small delay between batches
                 if (i + BATCH_SIZE < llmResult.translatedMenu.length) {
-                  await new Promise(resolve => setTimeout(resolve, 500));
+                  await sleep(500, signal);
                 }
               }
               
@@ -169,6 +741,8 @@ export class MenuProcessor {
               console.log(`All images generated in ${imageGenTime}ms`);
               
             } catch (imageError) {
+              // Let the translation step's handler record the cancellation
+              if (signal.aborted) throw imageError;
               console.error('Batch image generation failed:', imageError);
               websocketService.emitImageGenerationError(socketId, {
                 error: 'Failed to generate food images, but translation is complete',
@@ -178,8 +752,29 @@ export class MenuProcessor {
             }
           }
 
+          const translatedLanguages = await additionalTranslation;
+
           // Step 4: Processing Complete
+          throwIfAborted(signal);
           const totalTime = Date.now() - startTime;
+          await jobService.updateJob(jobId, (job) => {
+            const translatedMenu: MenuItem[] = llmResult.translatedMenu.map((item, index) => ({
+              ...item,
+              imageUrl: job.items[index]?.imageUrl ?? item.imageUrl,
+            }));
+            const result: TranslationResponse = {
+              success: true,
+              originalText,
+              translatedMenu,
+              sourceLanguage: llmResult.sourceLanguage,
+              targetLanguage: llmResult.targetLanguage,
+              additionalLanguages: translatedLanguages,
+              confidence: ocrConfidence,
+              processingTime: totalTime,
+            };
+            job.stage = 'completed';
+            job.result = result;
+          });
           websocketService.emitProcessingComplete(socketId, {
             success: true,
             totalProcessingTime: totalTime,
@@ -192,30 +787,231 @@ export class MenuProcessor {
           });
 
         } catch (translationError) {
+          if (signal.aborted) {
+            await cancelJob();
+            return;
+          }
           console.error('Translation failed:', translationError);
+          const message = translationError instanceof Error ? translationError.message : 'Translation failed';
+          await failJob(message);
           websocketService.emitTranslationError(socketId, {
-            error: translationError instanceof Error ? translationError.message : 'Translation failed',
+            error: message,
             step: 'translation',
             processingTime: Date.now() - translationStartTime,
           });
         }
 
       } catch (ocrError) {
+        if (signal.aborted) {
+          await cancelJob();
+          return;
+        }
         console.error('OCR failed:', ocrError);
+        const message = ocrError instanceof Error ? ocrError.message : 'OCR failed';
+        await failJob(message);
         websocketService.emitOCRError(socketId, {
-          error: ocrError instanceof Error ? ocrError.message : 'OCR failed',
+          error: message,
           step: 'ocr',
           processingTime: Date.now() - ocrStartTime,
         });
       }
 
     } catch (generalError) {
+      if (signal.aborted) {
+        await cancelJob();
+        return;
+      }
       console.error('Menu processing failed:', generalError);
+      const message = generalError instanceof Error ? generalError.message : 'Processing failed';
+      await failJob(message);
       websocketService.emitProcessingError(socketId, {
-        error: generalError instanceof Error ? generalError.message : 'Processing failed',
+        error: message,
         step: 'general',
         processingTime: Date.now() - startTime,
       });
+    } finally {
+      jobService.finishRun(jobId);
+    }
+  }
+
+  /**
+   * Translates a stored job into another language without running OCR again, emitting the
+   * usual translation_* events. A job with items only needs their names and descriptions
+   * translated; images and everything else are reused. A job whose translation failed is
+   * translated again from its OCR text, with images taken from the cache but none generated.
+   */
+  static async retranslateJobAsync(request: RetranslateJobRequest): Promise<void> {
+    const { jobId, targetLanguage, socketId } = request;
+    // Before anything is awaited, so a second request sees the job as running
+    const signal = jobService.startRun(jobId);
+    const startTime = Date.now();
+
+    try {
+      const job = await jobService.getJob(jobId);
+      if (!job) {
+        throw new Error('Job not found');
+      }
+      throwIfAborted(signal);
+
+      websocketService.emitTranslationStarted(socketId);
+      websocketService.emitTranslationProgress(socketId, {
+        step: 'translating_content',
+        message: `🌍 Translating menu into ${languageName(targetLanguage)}...`
+      });
+
+      const translation = job.result?.translatedMenu.length
+        ? await MenuProcessor.translateStoredItems(job, targetLanguage, signal)
+        : await MenuProcessor.translateStoredText(job, targetLanguage, socketId, signal);
+      const translationTime = Date.now() - startTime;
+
+      websocketService.emitTranslationComplete(socketId, {
+        translatedMenu: translation.translatedMenu,
+        sourceLanguage: translation.sourceLanguage,
+        targetLanguage,
+        processingTime: translationTime,
+      });
+      websocketService.emitProcessingComplete(socketId, {
+        success: true,
+        totalProcessingTime: translationTime,
+        summary: {
+          ocrTime: 0,
+          translationTime,
+          imageGenTime: 0,
+          itemCount: translation.translatedMenu.length,
+        },
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        // The stored job is left as it was
+        console.log(`Re-translation of job ${jobId} cancelled`);
+        websocketService.emitProcessingCancelled(socketId, {
+          jobId,
+          stage: 'translation',
+          totalProcessingTime: Date.now() - startTime,
+        });
+        return;
+      }
+      console.error('Re-translation failed:', error);
+      websocketService.emitTranslationError(socketId, {
+        error: error instanceof Error ? error.message : 'Translation failed',
+        step: 'translation',
+        processingTime: Date.now() - startTime,
+      });
+    } finally {
+      jobService.finishRun(jobId);
+    }
+  }
+
+  /**
+   * Adds `targetLanguage` to the stored items' translations. Returns the menu as seen in
+   * that language: its names and descriptions, with the job's own language among the
+   * translations.
+   */
+  private static async translateStoredItems(
+    job: Job,
+    targetLanguage: string,
+    signal: AbortSignal
+  ): Promise<{ translatedMenu: MenuItem[]; sourceLanguage: string }> {
+    const result = job.result!;
+    const translations = await llmService.translateItems(result.translatedMenu, targetLanguage, result.sourceLanguage, signal);
+    throwIfAborted(signal);
+
+    await jobService.updateJob(job.id, (stored) => {
+      stored.result?.translatedMenu.forEach((item, index) => {
+        const translation = translations[index];
+        if (translation) {
+          item.translations = { ...item.translations, [targetLanguage]: translation };
+        }
+      });
+      if (!stored.additionalLanguages?.includes(targetLanguage)) {
+        stored.additionalLanguages = [...(stored.additionalLanguages ?? []), targetLanguage];
+      }
+      if (stored.result) {
+        stored.result.additionalLanguages = stored.additionalLanguages;
+      }
+    });
+
+    const translatedMenu = result.translatedMenu.map((item, index): MenuItem => {
+      const otherTranslations = { ...item.translations };
+      delete otherTranslations[targetLanguage];
+      const reason = modelReason(item.suitability);
+      const translatedReason = translations[index]?.reason;
+      return {
+        ...item,
+        name: translations[index]?.name ?? item.name,
+        description: translations[index]?.description ?? item.description,
+        suitability: item.suitability && translatedReason ? { ...item.suitability, reason: translatedReason } : item.suitability,
+        translations: {
+          ...otherTranslations,
+          [job.targetLanguage]: reason
+            ? { name: item.name, description: item.description, reason }
+            : { name: item.name, description: item.description },
+        },
+      };
+    });
+
+    return { translatedMenu, sourceLanguage: result.sourceLanguage ?? 'unknown' };
+  }
+
+  /**
+   * Translates the job's OCR text from scratch and makes the result the job's own, in
+   * `targetLanguage`. Source regions need the OCR lines, which aren't stored, so items come
+   * without them.
+   */
+  private static async translateStoredText(
+    job: Job,
+    targetLanguage: string,
+    socketId: string,
+    signal: AbortSignal
+  ): Promise<{ translatedMenu: MenuItem[]; sourceLanguage: string }> {
+    const originalText = job.ocr?.text || job.result?.originalText;
+    if (!originalText) {
+      throw new Error('Job has no OCR text to translate');
     }
+
+    let streamedItems = 0;
+    const streamIndexes = new Map<MenuItem, number>();
+    const llmResult = await llmService.translateMenuChunked(originalText, targetLanguage, {
+      signal,
+      dietaryProfile: job.dietaryProfile,
+      onItem: (item) => {
+        streamIndexes.set(item, streamedItems);
+        websocketService.emitTranslationItem(socketId, { item, index: streamedItems++ });
+      },
+      onRetract: (items) => websocketService.emitTranslationRetracted(socketId, {
+        indexes: items.map(item => streamIndexes.get(item)!),
+      }),
+    });
+    await MenuProcessor.attachPrices(llmResult.translatedMenu, llmResult.sourceLanguage, job.homeCurrency);
+
+    for (const item of llmResult.translatedMenu) {
+      const cached = await imageCacheService.getCachedImage(item.name, item.description);
+      item.imageUrl = cached?.imageUrl ?? await fallbackImageService.getFallbackImageUrl(item.name) ?? undefined;
+    }
+    throwIfAborted(signal);
+
+    await jobService.updateJob(job.id, (stored) => {
+      stored.stage = 'completed';
+      stored.error = undefined;
+      stored.targetLanguage = targetLanguage;
+      stored.additionalLanguages = [];
+      stored.items = llmResult.translatedMenu.map((item, index) => ({
+        index,
+        name: item.name,
+        status: item.imageUrl ? 'done' : 'skipped',
+        imageUrl: item.imageUrl,
+      }));
+      stored.result = {
+        success: true,
+        originalText,
+        translatedMenu: llmResult.translatedMenu,
+        sourceLanguage: llmResult.sourceLanguage,
+        targetLanguage,
+        confidence: stored.ocr?.confidence,
+        processingTime: llmResult.processingTime,
+      };
+    });
+
+    return { translatedMenu: llmResult.translatedMenu, sourceLanguage: llmResult.sourceLanguage };
   }
 }
\ No newline at end of file
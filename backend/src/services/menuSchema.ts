@@ -0,0 +1,180 @@
+import { z } from 'zod';
+
+export const MENU_CATEGORIES = [
+  'Appetizers',
+  'Main Courses',
+  'Desserts',
+  'Beverages',
+  'Sides',
+  'Specials',
+  'Other',
+] as const;
+
+// The 14 allergens EU Regulation 1169/2011 requires restaurants to declare
+export const EU_ALLERGENS = [
+  'gluten',
+  'crustaceans',
+  'eggs',
+  'fish',
+  'peanuts',
+  'soybeans',
+  'milk',
+  'nuts',
+  'celery',
+  'mustard',
+  'sesame',
+  'sulphites',
+  'lupin',
+  'molluscs',
+] as const;
+
+export const DIETARY_CONFIDENCE_LEVELS = ['high', 'medium', 'low'] as const;
+
+// A null flag means the model couldn't tell, which the UI must not present as "no"
+const dietarySchema = z.object({
+  vegetarian: z.boolean().nullable(),
+  vegan: z.boolean().nullable(),
+  halal: z.boolean().nullable(),
+  glutenFree: z.boolean().nullable(),
+  allergens: z.array(z.enum(EU_ALLERGENS)),
+  spiceLevel: z.number().int().min(0).max(3).nullable(),
+  confidence: z.enum(DIETARY_CONFIDENCE_LEVELS),
+});
+
+export const SUITABILITY_VERDICTS = ['safe', 'caution', 'avoid'] as const;
+
+// Verdict against the diner's dietary profile; null when none was given
+const suitabilitySchema = z.object({
+  verdict: z.enum(SUITABILITY_VERDICTS),
+  reason: z.string().trim(),
+});
+
+// Optional fields are nullable rather than omittable: OpenAI's strict structured output
+// requires every property to be listed as required
+export const menuItemSchema = z.object({
+  name: z.string().trim().min(1),
+  originalName: z.string().trim().min(1),
+  description: z.string().trim().default(''),
+  price: z.string().trim().nullable().default(null),
+  category: z.enum(MENU_CATEGORIES),
+  page: z.number().int().positive().nullable().default(null),
+  dietary: dietarySchema.nullable().default(null),
+  suitability: suitabilitySchema.nullable().default(null),
+});
+
+export const menuResponseSchema = z.object({
+  sourceLanguage: z.string().trim().min(1),
+  items: z.array(menuItemSchema),
+});
+
+// An item's name and description in another language; `index` is its position in the list sent
+export const itemTranslationSchema = z.object({
+  index: z.number().int().min(0),
+  name: z.string().trim().min(1),
+  description: z.string().trim().default(''),
+  reason: z.string().trim().nullable().default(null),
+});
+
+export const itemTranslationsResponseSchema = z.object({
+  items: z.array(itemTranslationSchema),
+});
+
+export type MenuItemResponse = z.infer<typeof menuItemSchema>;
+export type MenuResponse = z.infer<typeof menuResponseSchema>;
+export type ItemTranslationsResponse = z.infer<typeof itemTranslationsResponseSchema>;
+
+export interface SchemaIssue {
+  // e.g. "items[3].category"
+  path: string;
+  message: string;
+}
+
+/**
+ * The model's reply wasn't valid JSON or didn't match the expected schema. `issues` is
+ * specific enough to send back to the model so it can fix just what was wrong.
+ */
+export class MenuResponseValidationError extends Error {
+  constructor(
+    readonly issues: SchemaIssue[],
+    readonly rawResponse: string
+  ) {
+    super(`LLM response failed schema validation: ${issues.map(formatIssue).join('; ')}`);
+    this.name = 'MenuResponseValidationError';
+  }
+}
+
+export function formatIssue(issue: SchemaIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path
+    .map((segment, index) => (typeof segment === 'number' ? `[${segment}]` : `${index > 0 ? '.' : ''}${String(segment)}`))
+    .join('');
+}
+
+/**
+ * Parses and validates a raw model reply. Markdown code fences and chatter around the JSON
+ * object are tolerated; anything else is reported as a `MenuResponseValidationError`.
+ */
+export function parseStructuredResponse<T extends z.ZodType>(response: string, schema: T): z.infer<T> {
+  const firstBrace = response.indexOf('{');
+  const lastBrace = response.lastIndexOf('}');
+  if (firstBrace === -1 || lastBrace <= firstBrace) {
+    throw new MenuResponseValidationError([{ path: '', message: 'Response contains no JSON object' }], response);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(response.substring(firstBrace, lastBrace + 1));
+  } catch (error) {
+    throw new MenuResponseValidationError(
+      [{ path: '', message: `Response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})` }],
+      response
+    );
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    throw new MenuResponseValidationError(
+      result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message })),
+      response
+    );
+  }
+
+  return result.data;
+}
+
+export function parseMenuResponse(response: string): MenuResponse {
+  return parseStructuredResponse(response, menuResponseSchema);
+}
+
+export function parseItemTranslationsResponse(response: string): ItemTranslationsResponse {
+  return parseStructuredResponse(response, itemTranslationsResponseSchema);
+}
+
+// Keywords zod emits that providers' structured-output modes reject. The bounds are still
+// enforced when the reply is validated.
+const UNSUPPORTED_SCHEMA_KEYS = new Set(['$schema', 'default', 'minLength', 'exclusiveMinimum']);
+
+function sanitizeSchema(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(sanitizeSchema);
+  }
+  if (!node || typeof node !== 'object') {
+    return node;
+  }
+
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (UNSUPPORTED_SCHEMA_KEYS.has(key)) continue;
+    // `.int()` adds the safe-integer range as bounds, which says nothing useful
+    if ((key === 'minimum' || key === 'maximum') && Math.abs(value as number) === Number.MAX_SAFE_INTEGER) continue;
+    sanitized[key] = sanitizeSchema(value);
+  }
+  return sanitized;
+}
+
+// JSON Schema handed to providers for structured output
+export const MENU_RESPONSE_JSON_SCHEMA = sanitizeSchema(z.toJSONSchema(menuResponseSchema)) as Record<string, unknown>;
+export const ITEM_TRANSLATIONS_JSON_SCHEMA = sanitizeSchema(z.toJSONSchema(itemTranslationsResponseSchema)) as Record<string, unknown>;
@@ -0,0 +1,201 @@
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import Tesseract from 'tesseract.js';
+import sharp from 'sharp';
+import { OCRService, isSupportedOCRLanguage, toSourceBox } from './ocrService';
+import { BoundingBox } from '../types';
+
+const menuPhoto = fs.readFileSync(path.join(__dirname, '../../../menu-imags/menu1.jpg'));
+
+interface FakeWorker {
+  language: string;
+  terminated: boolean;
+  whitelist?: string;
+  // Set once recognition has started
+  finishRecognition?: () => void;
+}
+
+// Stands in for Tesseract: recognition finishes only when the test says so
+function fakeTesseract(): FakeWorker[] {
+  const workers: FakeWorker[] = [];
+  mock.method(Tesseract, 'createWorker', async (language: string) => {
+    const fake: FakeWorker = { language, terminated: false };
+    workers.push(fake);
+    return {
+      setParameters: async (parameters: { tessedit_char_whitelist?: string }) => {
+        fake.whitelist = parameters.tessedit_char_whitelist;
+        return {};
+      },
+      // No OSD traineddata here, so script detection falls back to English
+      detect: async () => {
+        throw new Error('osd.traineddata not found');
+      },
+      recognize: () => new Promise((resolve) => {
+        fake.finishRecognition = () => resolve({ data: { text: 'Soupe à l’oignon 7,50', confidence: 90, blocks: [] } });
+      }),
+      terminate: async () => {
+        fake.terminated = true;
+      },
+    };
+  });
+  return workers;
+}
+
+async function recognitionStarted(workers: FakeWorker[], index = 0): Promise<FakeWorker> {
+  const deadline = Date.now() + 2000;
+  while (!workers[index]?.finishRecognition) {
+    if (Date.now() > deadline) throw new Error(`Worker ${index} never started recognizing`);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  return workers[index];
+}
+
+afterEach(() => {
+  mock.restoreAll();
+  delete process.env.OCR_MAX_WORKERS;
+});
+
+test('accepts only listed Tesseract languages', () => {
+  assert.equal(isSupportedOCRLanguage('auto'), true);
+  assert.equal(isSupportedOCRLanguage('jpn+eng'), true);
+  assert.equal(isSupportedOCRLanguage('klingon'), false);
+  assert.equal(isSupportedOCRLanguage('constructor'), false);
+  assert.equal(isSupportedOCRLanguage('eng+toString'), false);
+});
+
+test('never terminates a worker that is still recognizing', async () => {
+  process.env.OCR_MAX_WORKERS = '1';
+  const workers = fakeTesseract();
+  const service = new OCRService();
+
+  const french = service.extractText(menuPhoto, 'image/jpeg', { language: 'fra', preprocess: false });
+  const fra = await recognitionStarted(workers);
+  await service.initialize('deu');
+  assert.equal(fra.terminated, false);
+
+  fra.finishRecognition!();
+  const result = await french;
+  assert.equal(result.text, 'Soupe à l’oignon 7,50');
+  // Over the limit, so it goes once it's idle
+  assert.equal(fra.terminated, true);
+});
+
+test('a cancelled job keeps its worker busy until Tesseract is done', async () => {
+  process.env.OCR_MAX_WORKERS = '1';
+  const workers = fakeTesseract();
+  const service = new OCRService();
+  const controller = new AbortController();
+
+  const cancelled = service.extractText(menuPhoto, 'image/jpeg', { language: 'fra', preprocess: false, signal: controller.signal });
+  const fra = await recognitionStarted(workers);
+  controller.abort();
+  await assert.rejects(cancelled);
+
+  await service.initialize('deu');
+  assert.equal(fra.terminated, false);
+
+  fra.finishRecognition!();
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(fra.terminated, true);
+});
+
+test('an invalid worker limit falls back to the default instead of evicting every idle worker', async () => {
+  process.env.OCR_MAX_WORKERS = 'abc';
+  const workers = fakeTesseract();
+  const service = new OCRService();
+
+  await service.initialize('fra');
+  await service.initialize('deu');
+  assert.deepEqual(workers.map((worker) => worker.terminated), [false, false]);
+});
+
+test('only a menu the client says is English is read as ASCII', async () => {
+  const workers = fakeTesseract();
+  const service = new OCRService();
+
+  const english = service.extractText(menuPhoto, 'image/jpeg', { language: 'eng', preprocess: false });
+  (await recognitionStarted(workers)).finishRecognition!();
+  await english;
+
+  const detected = service.extractText(menuPhoto, 'image/jpeg', { language: 'auto', preprocess: false });
+  // workers[1] is the one for script detection
+  (await recognitionStarted(workers, 2)).finishRecognition!();
+  assert.equal((await detected).language, 'eng');
+
+  assert.deepEqual(workers.map((worker) => worker.language), ['eng', 'osd', 'eng']);
+  assert.match(workers[0].whitelist!, /^0123456789ABC/);
+  assert.equal(workers[2].whitelist, '');
+});
+
+// A 5000x2000 photo, turned `angle` degrees clockwise: lines of text on the left and one
+// dish name at the top right, whose box the test follows through preprocessing
+const PHOTO = { width: 5000, height: 2000 };
+const DISH = { x0: 3000, y0: 500, x1: 4200, y1: 560 };
+
+function menuPhotoTurned(angle: number): Buffer {
+  const lines = [400, 700, 1000, 1300, 1600].map((y) => `<rect x="300" y="${y}" width="2000" height="30" fill="#000"/>`);
+  const dish = `<rect x="${DISH.x0}" y="${DISH.y0}" width="${DISH.x1 - DISH.x0}" height="${DISH.y1 - DISH.y0}" fill="#000"/>`;
+  return Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${PHOTO.width}" height="${PHOTO.height}">
+    <rect width="100%" height="100%" fill="#fff"/>
+    <g transform="rotate(${angle} ${PHOTO.width / 2} ${PHOTO.height / 2})">${lines.join('')}${dish}</g>
+  </svg>`);
+}
+
+// Where the dish ends up in the photo: its corners turned around the centre
+function dishInPhoto(angle: number): BoundingBox {
+  const radians = (angle * Math.PI) / 180;
+  const corners = [[DISH.x0, DISH.y0], [DISH.x1, DISH.y0], [DISH.x0, DISH.y1], [DISH.x1, DISH.y1]].map(([x, y]) => {
+    const dx = x - PHOTO.width / 2;
+    const dy = y - PHOTO.height / 2;
+    return [dx * Math.cos(radians) - dy * Math.sin(radians) + PHOTO.width / 2, dx * Math.sin(radians) + dy * Math.cos(radians) + PHOTO.height / 2];
+  });
+  return {
+    x0: Math.min(...corners.map(([x]) => x)),
+    y0: Math.min(...corners.map(([, y]) => y)),
+    x1: Math.max(...corners.map(([x]) => x)),
+    y1: Math.max(...corners.map(([, y]) => y)),
+  };
+}
+
+// Box of the black pixels in the top right quarter of what Tesseract would be given
+async function dishInPreprocessed(image: Buffer): Promise<BoundingBox> {
+  const { data, info } = await sharp(image).grayscale().raw().toBuffer({ resolveWithObject: true });
+  const box: BoundingBox = { x0: Infinity, y0: Infinity, x1: -Infinity, y1: -Infinity };
+  for (let y = 0; y < info.height / 2; y++) {
+    for (let x = Math.round(info.width * 0.55); x < info.width; x++) {
+      if (data[y * info.width + x] >= 128) continue;
+      box.x0 = Math.min(box.x0, x);
+      box.y0 = Math.min(box.y0, y);
+      box.x1 = Math.max(box.x1, x + 1);
+      box.y1 = Math.max(box.y1, y + 1);
+    }
+  }
+  return box;
+}
+
+function assertBoxNear(actual: BoundingBox, expected: BoundingBox, tolerance: number) {
+  for (const side of ['x0', 'y0', 'x1', 'y1'] as const) {
+    assert.ok(Math.abs(actual[side] - expected[side]) <= tolerance, `${side}: ${actual[side]}, expected about ${expected[side]}`);
+  }
+}
+
+test('boxes found after downscaling map back onto the uploaded photo', async () => {
+  const { image, transform } = await new OCRService().preprocess(await sharp(menuPhotoTurned(0)).png().toBuffer());
+  assert.equal(transform.scale, 0.5);
+  assert.equal(transform.rotation, 0);
+
+  assertBoxNear(toSourceBox(await dishInPreprocessed(image), transform), DISH, 4);
+});
+
+test('boxes found after straightening map back onto the turned photo', async () => {
+  const { image, transform } = await new OCRService().preprocess(await sharp(menuPhotoTurned(3)).png().toBuffer());
+  assert.equal(transform.rotation, -3);
+  assert.ok(transform.outputHeight > transform.scaledHeight);
+
+  // The straightened dish is level, so only its box round-trips, not its exact corners
+  const straightened = await dishInPreprocessed(image);
+  assert.ok(straightened.y1 - straightened.y0 < 40, 'dish name is level after straightening');
+  assertBoxNear(toSourceBox(straightened, transform), dishInPhoto(3), 8);
+});
@@ -1,16 +1,160 @@
 import Tesseract from 'tesseract.js';
+import sharp from 'sharp';
 import { validateImageQuality } from '../utils/imageUtils';
+import { abortable, throwIfAborted } from '../utils/abortUtils';
+import { adaptiveThreshold, estimateSkewAngle } from '../utils/imagePreprocessing';
+import { positiveIntegerEnv } from '../utils/envUtils';
+import { BoundingBox, OCRLine } from '../types';
 
 export interface OCRResult {
   text: string;
   confidence: number;
   processingTime: number;
+  // Tesseract language(s) used, e.g. 'jpn+eng'
+  language: string;
+  // Script reported by orientation/script detection when language was 'auto'
+  detectedScript?: string;
+  preprocessed: boolean;
+  // Recognized lines with boxes in the coordinates of the uploaded image
+  lines: OCRLine[];
+  imageWidth: number;
+  imageHeight: number;
+}
+
+// How preprocessing reshaped the image, so OCR boxes can be mapped back onto the original
+export interface ImageTransform {
+  sourceWidth: number;
+  sourceHeight: number;
+  scale: number;
+  // Rotation applied to straighten text, in degrees (sharp convention: clockwise)
+  rotation: number;
+  // Size after scaling and after the straightening rotation (which grows the canvas)
+  scaledWidth: number;
+  scaledHeight: number;
+  outputWidth: number;
+  outputHeight: number;
+}
+
+export interface PreprocessedImage {
+  image: Buffer;
+  transform: ImageTransform;
+}
+
+export type OCRStep = 'preprocessing' | 'detecting_script' | 'recognizing';
+
+export interface OCROptions {
+  signal?: AbortSignal;
+  // Tesseract language code(s), or 'auto' to detect the script
+  language?: string;
+  // Defaults to OCR_PREPROCESS (on unless set to 'false')
+  preprocess?: boolean;
+  onProgress?: (step: OCRStep) => void;
+}
+
+// Tesseract traineddata codes we allow clients to request
+export const OCR_LANGUAGES: Record<string, string> = {
+  eng: 'English',
+  fra: 'French',
+  deu: 'German',
+  spa: 'Spanish',
+  ita: 'Italian',
+  por: 'Portuguese',
+  vie: 'Vietnamese',
+  tur: 'Turkish',
+  ell: 'Greek',
+  rus: 'Russian',
+  ukr: 'Ukrainian',
+  jpn: 'Japanese',
+  chi_sim: 'Chinese (Simplified)',
+  chi_tra: 'Chinese (Traditional)',
+  kor: 'Korean',
+  tha: 'Thai',
+  ara: 'Arabic',
+  heb: 'Hebrew',
+  hin: 'Hindi',
+};
+
+// Script names reported by Tesseract OSD -> traineddata to load. English is added so the
+// prices, dish numbers and loanwords most menus mix in still come through. OSD can't tell
+// Latin-script languages apart, so Latin gets the common European ones: English alone
+// would drop the accents of French, Spanish and German menus.
+const SCRIPT_LANGUAGES: Record<string, string> = {
+  Latin: 'eng+fra+deu+spa+ita+por',
+  Japanese: 'jpn+eng',
+  Katakana: 'jpn+eng',
+  Hiragana: 'jpn+eng',
+  Han: 'chi_sim+chi_tra+eng',
+  Hangul: 'kor+eng',
+  Thai: 'tha+eng',
+  Greek: 'ell+eng',
+  Cyrillic: 'rus+ukr+eng',
+  Arabic: 'ara+eng',
+  Hebrew: 'heb+eng',
+  Devanagari: 'hin+eng',
+};
+
+const DEFAULT_LANGUAGE = 'eng';
+
+// Only a menu the client says is English benefits from the ASCII whitelist; it would strip
+// accents and every non-Latin script. The English fallback of script detection goes without.
+const ASCII_WHITELIST = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz.,!?()[]{}/@#$%^&*-+=|\\:;"\'<> ';
+
+export function isSupportedOCRLanguage(language: string): boolean {
+  return language === 'auto'
+    || language.split('+').every((code) => Object.prototype.hasOwnProperty.call(OCR_LANGUAGES, code));
+}
+
+interface OCRWorker {
+  worker: Promise<Tesseract.Worker>;
+  // Recognitions running on it; a busy worker is never evicted
+  leases: number;
+}
+
+/**
+ * Maps a box from the image Tesseract saw back onto the uploaded image by undoing the
+ * straightening rotation (around the canvas centre) and the downscale.
+ */
+export function toSourceBox(bbox: Tesseract.Bbox, transform: ImageTransform): BoundingBox {
+  const radians = (-transform.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  const corners = [
+    [bbox.x0, bbox.y0],
+    [bbox.x1, bbox.y0],
+    [bbox.x0, bbox.y1],
+    [bbox.x1, bbox.y1],
+  ].map(([x, y]) => {
+    const dx = x - transform.outputWidth / 2;
+    const dy = y - transform.outputHeight / 2;
+    return [
+      (dx * cos - dy * sin + transform.scaledWidth / 2) / transform.scale,
+      (dx * sin + dy * cos + transform.scaledHeight / 2) / transform.scale,
+    ];
+  });
+
+  const clamp = (value: number, max: number) => Math.round(Math.min(Math.max(value, 0), max));
+  return {
+    x0: clamp(Math.min(...corners.map(([x]) => x)), transform.sourceWidth),
+    y0: clamp(Math.min(...corners.map(([, y]) => y)), transform.sourceHeight),
+    x1: clamp(Math.max(...corners.map(([x]) => x)), transform.sourceWidth),
+    y1: clamp(Math.max(...corners.map(([, y]) => y)), transform.sourceHeight),
+  };
 }
 
 export class OCRService {
   private static instance: OCRService;
-  private worker: Tesseract.Worker | null = null;
-  private isInitialized = false;
+  // One worker per language combination (and whitelist), least recently used first
+  private workers = new Map<string, OCRWorker>();
+  private detectionWorker: Promise<Tesseract.Worker> | null = null;
+  // Read lazily, since the singleton is created before index.ts loads .env
+  private get maxWorkers(): number {
+    return positiveIntegerEnv('OCR_MAX_WORKERS', 3);
+  }
+  // Phone cameras produce 4000px+ photos; beyond this Tesseract only gets slower
+  private readonly MAX_DIMENSION = 2500;
+  // Smaller corrections aren't worth the resampling blur
+  private readonly MIN_SKEW_DEGREES = 0.5;
 
   static getInstance(): OCRService {
     if (!OCRService.instance) {
@@ -19,26 +163,129 @@ export class OCRService {
     return OCRService.instance;
   }
 
-  async initialize(): Promise<void> {
-    if (this.isInitialized) return;
+  private workerOptions(): Partial<Tesseract.WorkerOptions> {
+    // OCR_LANG_PATH lets offline deployments serve traineddata themselves
+    return process.env.OCR_LANG_PATH ? { langPath: process.env.OCR_LANG_PATH } : {};
+  }
 
+  // `language` as a client would request it, so 'eng' gets the whitelisted worker
+  async initialize(language: string = DEFAULT_LANGUAGE): Promise<Tesseract.Worker> {
+    const entry = this.getWorker(language, language === 'eng');
+    this.evictIdleWorkers();
+    return entry.worker;
+  }
+
+  // The worker for `language`, created if needed and moved to the back of the LRU order
+  private getWorker(language: string, asciiOnly: boolean): OCRWorker {
+    const key = asciiOnly ? `${language}:ascii` : language;
+    const existing = this.workers.get(key);
+    if (existing) {
+      this.workers.delete(key);
+      this.workers.set(key, existing);
+      return existing;
+    }
+
+    const entry: OCRWorker = { worker: this.createWorker(language, asciiOnly), leases: 0 };
+    this.workers.set(key, entry);
+    entry.worker.catch(() => {
+      if (this.workers.get(key) === entry) {
+        this.workers.delete(key);
+      }
+    });
+    return entry;
+  }
+
+  private async createWorker(language: string, asciiOnly: boolean): Promise<Tesseract.Worker> {
     try {
-      this.worker = await Tesseract.createWorker('eng');
-      
-      await this.worker.setParameters({
+      const worker = await Tesseract.createWorker(language, undefined, this.workerOptions());
+
+      await worker.setParameters({
         tessedit_pageseg_mode: Tesseract.PSM.SPARSE_TEXT,
-        tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz.,!?()[]{}/@#$%^&*-+=|\\:;"\'<> ',
+        tessedit_char_whitelist: asciiOnly ? ASCII_WHITELIST : '',
+        preserve_interword_spaces: '1',
       });
 
-      this.isInitialized = true;
-      console.log('OCR Service initialized successfully');
+      console.log(`OCR Service initialized successfully (language: ${language}${asciiOnly ? ', ASCII only' : ''})`);
+      return worker;
     } catch (error) {
       console.error('Failed to initialize OCR service:', error);
       throw new Error('OCR service initialization failed');
     }
   }
 
-  async extractText(imageBuffer: Buffer, mimetype: string = 'image/jpeg'): Promise<OCRResult> {
+  /**
+   * Runs `task` on the worker for `language`. The worker counts as busy until the task
+   * settles, even when the caller has stopped waiting for it.
+   */
+  private async withWorker<T>(
+    language: string,
+    asciiOnly: boolean,
+    task: (worker: Tesseract.Worker) => Promise<T>
+  ): Promise<T> {
+    const entry = this.getWorker(language, asciiOnly);
+    entry.leases++;
+    this.evictIdleWorkers();
+    try {
+      return await task(await entry.worker);
+    } finally {
+      entry.leases--;
+      // Workers that were busy when the limit was hit can go now
+      this.evictIdleWorkers();
+    }
+  }
+
+  // Terminates the least recently used idle workers beyond OCR_MAX_WORKERS. The most recent
+  // one is about to be used, so it stays.
+  private evictIdleWorkers(): void {
+    const candidates = [...this.workers.entries()].slice(0, -1);
+    for (const [key, entry] of candidates) {
+      if (this.workers.size <= this.maxWorkers) break;
+      if (entry.leases > 0) continue;
+
+      this.workers.delete(key);
+      console.log(`Terminating OCR worker for: ${key}`);
+      entry.worker.then((worker) => worker.terminate()).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Runs Tesseract's orientation and script detection and maps the script to the traineddata
+   * to OCR with. Falls back to English when detection is unavailable or inconclusive.
+   */
+  async detectLanguage(imageBuffer: Buffer): Promise<{ language: string; script?: string }> {
+    try {
+      if (!this.detectionWorker) {
+        // OSD only exists for the legacy engine
+        this.detectionWorker = Tesseract.createWorker('osd', Tesseract.OEM.TESSERACT_ONLY, {
+          ...this.workerOptions(),
+          legacyCore: true,
+          legacyLang: true,
+        });
+      }
+
+      const worker = await this.detectionWorker;
+      const { data } = await worker.detect(imageBuffer);
+      const script = data.script || undefined;
+      const language = (script && SCRIPT_LANGUAGES[script]) || DEFAULT_LANGUAGE;
+
+      console.log(`Detected script: ${script ?? 'unknown'} (confidence: ${data.script_confidence}), using: ${language}`);
+      return { language, script };
+    } catch (error) {
+      console.warn('Script detection failed, falling back to English:', error);
+      this.detectionWorker = null;
+      return { language: DEFAULT_LANGUAGE };
+    }
+  }
+
+  isPreprocessingEnabled(): boolean {
+    return process.env.OCR_PREPROCESS !== 'false';
+  }
+
+  async extractText(imageBuffer: Buffer, mimetype: string = 'image/jpeg', options: OCROptions = {}): Promise<OCRResult> {
+    const { signal, onProgress, preprocess = this.isPreprocessingEnabled() } = options;
+    let language = options.language ?? 'auto';
+    // Decided by what the client asked for, before detection can fall back to English
+    const asciiOnly = language === 'eng';
     const startTime = Date.now();
 
     // Validate image quality first
@@ -47,29 +294,57 @@ export class OCRService {
       throw new Error(validation.message || 'Invalid image');
     }
 
-    if (!this.isInitialized || !this.worker) {
-      await this.initialize();
-    }
-
     try {
-      const { data } = await this.worker!.recognize(imageBuffer);
-      
+      let preprocessed = false;
+      let transform: ImageTransform | null = null;
+      if (preprocess) {
+        onProgress?.('preprocessing');
+        const result = await this.preprocess(imageBuffer, signal);
+        preprocessed = result.image !== imageBuffer;
+        imageBuffer = result.image;
+        transform = result.transform;
+      }
+      transform = transform ?? await this.identityTransform(imageBuffer);
+
+      let detectedScript: string | undefined;
+      if (language === 'auto') {
+        onProgress?.('detecting_script');
+        const detection = await abortable(this.detectLanguage(imageBuffer), signal);
+        language = detection.language;
+        detectedScript = detection.script;
+      }
+
+      onProgress?.('recognizing');
+
+      // Tesseract can't be interrupted; on cancel we just stop waiting for it
+      const image = imageBuffer;
+      const { data } = await abortable(
+        this.withWorker(language, asciiOnly, (worker) => worker.recognize(image, {}, { text: true, blocks: true })),
+        signal
+      );
+
       const processingTime = Date.now() - startTime;
-      
+
       // Additional validation for extracted text
       const cleanText = data.text.trim();
       if (cleanText.length === 0) {
         throw new Error('No text could be extracted from the image');
       }
-      
+
       if (data.confidence < 30) {
         console.warn(`Low confidence OCR result: ${data.confidence}%`);
       }
-      
+
       return {
         text: cleanText,
         confidence: data.confidence,
         processingTime,
+        language,
+        detectedScript,
+        preprocessed,
+        lines: this.extractLines(data, transform),
+        imageWidth: transform.sourceWidth,
+        imageHeight: transform.sourceHeight,
       };
     } catch (error) {
       console.error('OCR extraction failed:', error);
@@ -80,19 +355,146 @@ export class OCRService {
     }
   }
 
-  async preprocess(imageBuffer: Buffer): Promise<Buffer> {
-    // Basic image preprocessing could be added here
-    // For now, return the original buffer
-    return imageBuffer;
+  /**
+   * Cleans up a menu photo for Tesseract: applies EXIF orientation, downscales huge photos,
+   * converts to grayscale, stretches contrast, straightens slightly rotated text and
+   * binarizes with an adaptive threshold. Returns a PNG, or the original image if
+   * preprocessing fails.
+   */
+  async preprocess(imageBuffer: Buffer, signal?: AbortSignal): Promise<PreprocessedImage> {
+    const startTime = Date.now();
+
+    try {
+      const source = await this.identityTransform(imageBuffer);
+      const normalized = await sharp(imageBuffer)
+        .rotate()
+        .resize({
+          width: this.MAX_DIMENSION,
+          height: this.MAX_DIMENSION,
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .flatten({ background: '#ffffff' })
+        .grayscale()
+        .normalise()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      throwIfAborted(signal);
+
+      let pixels = normalized.data;
+      let { width, height } = normalized.info;
+      const scaledWidth = width;
+      const scaledHeight = height;
+
+      const skew = estimateSkewAngle(pixels, width, height);
+      const rotation = Math.abs(skew) >= this.MIN_SKEW_DEGREES ? -skew : 0;
+      if (rotation !== 0) {
+        const straightened = await sharp(pixels, { raw: { width, height, channels: 1 } })
+          .rotate(rotation, { background: '#ffffff' })
+          .toColourspace('b-w')
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+        throwIfAborted(signal);
+
+        pixels = straightened.data;
+        ({ width, height } = straightened.info);
+      }
+
+      const binarized = adaptiveThreshold(pixels, width, height);
+      const output = await sharp(binarized, { raw: { width, height, channels: 1 } })
+        .toColourspace('b-w')
+        .png()
+        .toBuffer();
+
+      console.log(`Preprocessed image to ${width}x${height} (skew: ${skew}°) in ${Date.now() - startTime}ms`);
+      return {
+        image: output,
+        transform: {
+          sourceWidth: source.sourceWidth,
+          sourceHeight: source.sourceHeight,
+          scale: scaledWidth / source.sourceWidth,
+          rotation,
+          scaledWidth,
+          scaledHeight,
+          outputWidth: width,
+          outputHeight: height,
+        },
+      };
+    } catch (error) {
+      throwIfAborted(signal);
+      console.warn('Image preprocessing failed, using original image:', error);
+      return { image: imageBuffer, transform: await this.identityTransform(imageBuffer) };
+    }
+  }
+
+  private async identityTransform(imageBuffer: Buffer): Promise<ImageTransform> {
+    let width = 0;
+    let height = 0;
+    try {
+      const metadata = await sharp(imageBuffer).metadata();
+      // EXIF orientations 5-8 are rotated by 90°, so width and height swap once applied
+      const swapped = (metadata.orientation ?? 1) >= 5;
+      width = (swapped ? metadata.height : metadata.width) ?? 0;
+      height = (swapped ? metadata.width : metadata.height) ?? 0;
+    } catch (error) {
+      console.warn('Could not read image dimensions:', error);
+    }
+
+    return {
+      sourceWidth: width,
+      sourceHeight: height,
+      scale: 1,
+      rotation: 0,
+      scaledWidth: width,
+      scaledHeight: height,
+      outputWidth: width,
+      outputHeight: height,
+    };
+  }
+
+  private extractLines(page: Tesseract.Page, transform: ImageTransform): OCRLine[] {
+    const lines: OCRLine[] = [];
+
+    for (const block of page.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          const text = line.text.trim();
+          if (!text) continue;
+
+          lines.push({
+            text,
+            confidence: line.confidence,
+            bbox: toSourceBox(line.bbox, transform),
+            words: line.words.map((word) => ({
+              text: word.text,
+              confidence: word.confidence,
+              bbox: toSourceBox(word.bbox, transform),
+            })),
+          });
+        }
+      }
+    }
+
+    return lines;
   }
 
   async terminate(): Promise<void> {
-    if (this.worker) {
-      await this.worker.terminate();
-      this.worker = null;
-      this.isInitialized = false;
+    const workers = [...this.workers.values()].map((entry) => entry.worker);
+    if (this.detectionWorker) {
+      workers.push(this.detectionWorker);
     }
+    this.workers.clear();
+    this.detectionWorker = null;
+
+    await Promise.all(workers.map(async (workerPromise) => {
+      try {
+        const worker = await workerPromise;
+        await worker.terminate();
+      } catch (error) {
+        console.warn('Error terminating OCR worker:', error);
+      }
+    }));
   }
 }
 
-export const ocrService = OCRService.getInstance();
\ No newline at end of file
+export const ocrService = OCRService.getInstance();
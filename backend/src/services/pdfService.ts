@@ -0,0 +1,114 @@
+import { extractText, getDocumentProxy, renderPageAsImage } from 'unpdf';
+import type { Canvas, SKRSContext2D } from '@napi-rs/canvas';
+import { validateImageQuality } from '../utils/imageUtils';
+import { throwIfAborted } from '../utils/abortUtils';
+
+export interface PdfPage {
+  page: number;
+  // Embedded text layer, when the PDF has a usable one
+  text?: string;
+  // Rendered PNG of the page, for scanned PDFs that need OCR
+  image?: Buffer;
+}
+
+type DocumentOptions = NonNullable<Parameters<typeof getDocumentProxy>[1]>;
+
+interface CanvasAndContext {
+  canvas?: Canvas;
+  context?: SKRSContext2D;
+}
+
+export class PdfService {
+  private static instance: PdfService;
+  private readonly MAX_PAGES = 20;
+  // Below this many characters we treat the page as scanned and OCR it instead
+  private readonly MIN_EMBEDDED_TEXT_LENGTH = 20;
+  // Render at 2x (~144 DPI) so Tesseract has enough pixels to work with
+  private readonly RENDER_SCALE = 2;
+
+  static getInstance(): PdfService {
+    if (!PdfService.instance) {
+      PdfService.instance = new PdfService();
+    }
+    return PdfService.instance;
+  }
+
+  // @napi-rs/canvas is API compatible with node-canvas, which unpdf expects, and ships prebuilt binaries
+  private loadCanvas() {
+    return import('@napi-rs/canvas');
+  }
+
+  /**
+   * The factory pdf.js draws images and patterns inside a page with. unpdf's own
+   * createIsomorphicCanvasFactory can't be called from TypeScript: its parameter's type
+   * refers to the parameter itself.
+   */
+  private async createCanvasFactory(): Promise<DocumentOptions['canvasFactory']> {
+    const { createCanvas } = await this.loadCanvas();
+    return {
+      create(width: number, height: number): CanvasAndContext {
+        const canvas = createCanvas(width, height);
+        return { canvas, context: canvas.getContext('2d') };
+      },
+      reset(target: CanvasAndContext, width: number, height: number) {
+        if (target.canvas) {
+          target.canvas.width = width;
+          target.canvas.height = height;
+        }
+      },
+      destroy(target: CanvasAndContext) {
+        if (target.canvas) {
+          target.canvas.width = 0;
+          target.canvas.height = 0;
+        }
+        target.canvas = undefined;
+        target.context = undefined;
+      },
+    };
+  }
+
+  async extractPages(pdfBuffer: Buffer, signal?: AbortSignal): Promise<PdfPage[]> {
+    const validation = validateImageQuality(pdfBuffer, 'application/pdf');
+    if (!validation.isValid) {
+      throw new Error(validation.message || 'Invalid PDF');
+    }
+
+    try {
+      const canvasFactory = await this.createCanvasFactory();
+      const pdf = await getDocumentProxy(new Uint8Array(pdfBuffer), { canvasFactory });
+
+      if (pdf.numPages > this.MAX_PAGES) {
+        throw new Error(`PDF has too many pages (${pdf.numPages}). Maximum is ${this.MAX_PAGES}`);
+      }
+
+      const { text } = await extractText(pdf, { mergePages: false });
+      const pages: PdfPage[] = [];
+
+      for (let i = 0; i < pdf.numPages; i++) {
+        throwIfAborted(signal);
+
+        const pageText = (text[i] || '').trim();
+        if (pageText.length >= this.MIN_EMBEDDED_TEXT_LENGTH) {
+          pages.push({ page: i + 1, text: pageText });
+          continue;
+        }
+
+        const rendered = await renderPageAsImage(pdf, i + 1, {
+          canvas: () => this.loadCanvas(),
+          scale: this.RENDER_SCALE,
+        });
+        pages.push({ page: i + 1, image: Buffer.from(rendered) });
+      }
+
+      return pages;
+    } catch (error) {
+      console.error('PDF extraction failed:', error);
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('Failed to read PDF');
+    }
+  }
+}
+
+export const pdfService = PdfService.getInstance();
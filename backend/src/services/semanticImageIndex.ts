@@ -0,0 +1,67 @@
+import { CachedImage } from './imageCacheService';
+
+export interface SemanticMatch {
+  key: string;
+  image: CachedImage;
+  similarity: number;
+}
+
+/**
+ * In-memory nearest-neighbour search over dish embeddings. A linear scan is plenty: a busy
+ * cache holds a few thousand dishes, and one embedding request costs far more than
+ * comparing against all of them.
+ */
+export class SemanticImageIndex {
+  private entries = new Map<string, { vector: Float32Array; image: CachedImage }>();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Vectors are stored unit-length, so a dot product is their cosine similarity
+  add(key: string, vector: number[], image: CachedImage): void {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) return;
+    this.entries.set(key, { vector: Float32Array.from(vector, (value) => value / norm), image });
+  }
+
+  remove(key: string): void {
+    this.entries.delete(key);
+  }
+
+  nearest(vector: number[]): SemanticMatch | null {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) return null;
+
+    let best: SemanticMatch | null = null;
+    for (const [key, entry] of this.entries) {
+      if (entry.vector.length !== vector.length) continue;
+
+      let dot = 0;
+      for (let i = 0; i < vector.length; i++) {
+        dot += entry.vector[i] * vector[i];
+      }
+      const similarity = dot / norm;
+      if (!best || similarity > best.similarity) {
+        best = { key, image: entry.image, similarity };
+      }
+    }
+    return best;
+  }
+
+  // Drops every entry `keep` rejects and returns their keys
+  prune(keep: (image: CachedImage, key: string) => boolean): string[] {
+    const removed: string[] = [];
+    for (const [key, entry] of this.entries) {
+      if (!keep(entry.image, key)) {
+        this.entries.delete(key);
+        removed.push(key);
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
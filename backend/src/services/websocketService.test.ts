@@ -0,0 +1,73 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocketService } from './websocketService';
+
+// Without initialize() there is no socket.io server; events are only buffered
+
+test('replays only the events after lastEventId', () => {
+  const service = new WebSocketService();
+  service.emitOCRStarted('room');
+  service.emitOCRProgress('room', { step: 'reading_image', message: 'Reading' });
+  service.emitTranslationStarted('room');
+
+  const [first, ...rest] = service.getEventsSince('room', 0);
+  assert.deepEqual(rest.map((entry) => entry.event), ['ocr_progress', 'translation_started']);
+  assert.deepEqual(
+    service.getEventsSince('room', first.meta.eventId).map((entry) => entry.event),
+    ['ocr_progress', 'translation_started']
+  );
+  assert.deepEqual(service.getEventsSince('room', rest[1].meta.eventId), []);
+});
+
+test('keeps rooms apart', () => {
+  const service = new WebSocketService();
+  service.emitOCRStarted('a');
+  service.emitOCRStarted('b');
+  service.emitTranslationStarted('a');
+
+  assert.deepEqual(service.getEventsSince('a', 0).map((entry) => entry.event), ['ocr_started', 'translation_started']);
+  // Event ids are shared between rooms, so a client's lastEventId can skip another room's ids
+  const [b] = service.getEventsSince('b', 0);
+  assert.deepEqual(service.getEventsSince('a', b.meta.eventId).map((entry) => entry.event), ['translation_started']);
+  assert.deepEqual(service.getEventsSince('unknown', 0), []);
+});
+
+test('a new job in the room drops the old events', () => {
+  const service = new WebSocketService();
+  service.emitOCRStarted('room');
+  service.resetEventLog('room');
+  service.emitTranslationStarted('room');
+
+  assert.deepEqual(service.getEventsSince('room', 0).map((entry) => entry.event), ['translation_started']);
+});
+
+test('buffers at most 500 events per room', () => {
+  const service = new WebSocketService();
+  for (let i = 0; i < 510; i++) {
+    service.emitOCRProgress('room', { step: 'reading_image', message: `Event ${i}` });
+  }
+
+  const events = service.getEventsSince('room', 0);
+  assert.equal(events.length, 500);
+  assert.deepEqual(events[0].data, { step: 'reading_image', message: 'Event 10' });
+});
+
+test('forgets rooms that have been idle for an hour, even without new jobs', () => {
+  mock.timers.enable({ apis: ['Date'] });
+  try {
+    const service = new WebSocketService();
+    service.emitOCRStarted('finished');
+    service.emitOCRStarted('running');
+
+    mock.timers.tick(59 * 60 * 1000);
+    service.emitTranslationStarted('running');
+    assert.equal(service.getEventsSince('finished', 0).length, 1);
+
+    mock.timers.tick(2 * 60 * 1000);
+    service.emitImageGenerationStarted('running');
+    assert.deepEqual(service.getEventsSince('finished', 0), []);
+    assert.equal(service.getEventsSince('running', 0).length, 3);
+  } finally {
+    mock.timers.reset();
+  }
+});
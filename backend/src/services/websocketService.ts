@@ -1,19 +1,38 @@
 import { Server } from 'socket.io';
 import { Server as HttpServer } from 'http';
+import { jobService } from './jobService';
 import { 
   WebSocketEvents, 
   SubStepProgressData,
   OCRCompleteData, 
+  TranslationPartialData,
+  TranslationItemData,
+  TranslationRetractedData,
   TranslationCompleteData, 
+  TranslationLanguageData,
   ImageGeneratedData, 
   ProcessingCompleteData, 
-  ErrorData 
+  ErrorData,
+  ProcessingCancelledData,
+  EventMeta,
+  JoinRoomOptions
 } from '../types/websocket';
 
+export interface BufferedEvent {
+  event: string;
+  data: unknown;
+  meta: EventMeta;
+}
+
 export class WebSocketService {
   private static instance: WebSocketService;
   private io: Server | null = null;
   private isInitialized = false;
+  // Per-room log of emitted events, replayed to clients that rejoin after a reconnect
+  private eventLogs = new Map<string, { events: BufferedEvent[]; lastActivity: number }>();
+  private nextEventId = 1;
+  private readonly MAX_BUFFERED_EVENTS = 500;
+  private readonly EVENT_LOG_TTL = 60 * 60 * 1000; // 1 hour
 
   static getInstance(): WebSocketService {
     if (!WebSocketService.instance) {
@@ -45,12 +64,33 @@ export class WebSocketService {
     this.io.on('connection', (socket) => {
       console.log(`Client connected: ${socket.id}`);
 
-      socket.on('join_room', (roomId: string) => {
+      socket.on('join_room', (roomId: string, options?: JoinRoomOptions) => {
         socket.join(roomId);
         console.log(`Client ${socket.id} joined room: ${roomId}`);
+
+        // Replay anything the client missed while it was disconnected
+        this.pruneExpiredLogs();
+        const lastEventId = options?.lastEventId ?? 0;
+        const missed = this.getEventsSince(roomId, lastEventId);
+        missed.forEach(({ event, data, meta }) => {
+          socket.emit(event, data, { ...meta, replayed: true });
+        });
+        if (missed.length > 0) {
+          console.log(`Replayed ${missed.length} events to ${socket.id} in room: ${roomId}`);
+        }
         
         // Send confirmation that client joined the room
-        socket.emit('room_joined', { roomId, timestamp: new Date().toISOString() });
+        socket.emit('room_joined', {
+          roomId,
+          replayedEvents: missed.length,
+          timestamp: new Date().toISOString(),
+        });
+      });
+
+      socket.on('cancel_job', (jobId: string, ack?: (response: { success: boolean; error?: string }) => void) => {
+        const cancelled = jobService.cancelJob(jobId);
+        console.log(`Client ${socket.id} requested cancel of job ${jobId}: ${cancelled ? 'cancelling' : 'not running'}`);
+        ack?.(cancelled ? { success: true } : { success: false, error: 'Job is not running' });
       });
 
       socket.on('disconnect', (reason) => {
@@ -83,64 +123,128 @@ export class WebSocketService {
     });
   }
 
+  private emitToRoom(roomId: string, event: string, data?: unknown): void {
+    this.pruneExpiredLogs();
+    const meta: EventMeta = {
+      eventId: this.nextEventId++,
+      timestamp: new Date().toISOString(),
+    };
+
+    const log = this.eventLogs.get(roomId) || { events: [], lastActivity: 0 };
+    log.events.push({ event, data, meta });
+    if (log.events.length > this.MAX_BUFFERED_EVENTS) {
+      log.events.splice(0, log.events.length - this.MAX_BUFFERED_EVENTS);
+    }
+    log.lastActivity = Date.now();
+    this.eventLogs.set(roomId, log);
+
+    this.io?.to(roomId).emit(event, data, meta);
+  }
+
+  /**
+   * The room's buffered events emitted after `lastEventId`, oldest first.
+   */
+  getEventsSince(roomId: string, lastEventId: number): BufferedEvent[] {
+    const log = this.eventLogs.get(roomId);
+    if (!log) return [];
+    return log.events.filter((entry) => entry.meta.eventId > lastEventId);
+  }
+
+  /**
+   * Drops the buffered events of a room (called when a new job starts in it).
+   */
+  resetEventLog(roomId: string): void {
+    this.eventLogs.delete(roomId);
+  }
+
+  // Forgets logs that have been idle for longer than EVENT_LOG_TTL
+  private pruneExpiredLogs(): void {
+    const now = Date.now();
+    for (const [id, log] of this.eventLogs.entries()) {
+      if (now - log.lastActivity > this.EVENT_LOG_TTL) {
+        this.eventLogs.delete(id);
+      }
+    }
+  }
+
   // OCR Events
   emitOCRStarted(socketId: string): void {
-    this.io?.to(socketId).emit('ocr_started');
+    this.emitToRoom(socketId, 'ocr_started');
   }
 
   emitOCRProgress(socketId: string, data: SubStepProgressData): void {
-    this.io?.to(socketId).emit('ocr_progress', data);
+    this.emitToRoom(socketId, 'ocr_progress', data);
   }
 
   emitOCRComplete(socketId: string, data: OCRCompleteData): void {
-    this.io?.to(socketId).emit('ocr_complete', data);
+    this.emitToRoom(socketId, 'ocr_complete', data);
   }
 
   emitOCRError(socketId: string, data: ErrorData): void {
-    this.io?.to(socketId).emit('ocr_error', data);
+    this.emitToRoom(socketId, 'ocr_error', data);
   }
 
   // Translation Events
   emitTranslationStarted(socketId: string): void {
-    this.io?.to(socketId).emit('translation_started');
+    this.emitToRoom(socketId, 'translation_started');
   }
 
   emitTranslationProgress(socketId: string, data: SubStepProgressData): void {
-    this.io?.to(socketId).emit('translation_progress', data);
+    this.emitToRoom(socketId, 'translation_progress', data);
+  }
+
+  emitTranslationPartial(socketId: string, data: TranslationPartialData): void {
+    this.emitToRoom(socketId, 'translation_partial', data);
+  }
+
+  emitTranslationItem(socketId: string, data: TranslationItemData): void {
+    this.emitToRoom(socketId, 'translation_item', data);
+  }
+
+  emitTranslationRetracted(socketId: string, data: TranslationRetractedData): void {
+    this.emitToRoom(socketId, 'translation_retracted', data);
   }
 
   emitTranslationComplete(socketId: string, data: TranslationCompleteData): void {
-    this.io?.to(socketId).emit('translation_complete', data);
+    this.emitToRoom(socketId, 'translation_complete', data);
+  }
+
+  emitTranslationLanguage(socketId: string, data: TranslationLanguageData): void {
+    this.emitToRoom(socketId, 'translation_language', data);
   }
 
   emitTranslationError(socketId: string, data: ErrorData): void {
-    this.io?.to(socketId).emit('translation_error', data);
+    this.emitToRoom(socketId, 'translation_error', data);
   }
 
   // Image Generation Events
   emitImageGenerationStarted(socketId: string): void {
-    this.io?.to(socketId).emit('image_generation_started');
+    this.emitToRoom(socketId, 'image_generation_started');
   }
 
   emitImageGenerationProgress(socketId: string, data: SubStepProgressData): void {
-    this.io?.to(socketId).emit('image_generation_progress', data);
+    this.emitToRoom(socketId, 'image_generation_progress', data);
   }
 
   emitImageGenerated(socketId: string, data: ImageGeneratedData): void {
-    this.io?.to(socketId).emit('image_generated', data);
+    this.emitToRoom(socketId, 'image_generated', data);
   }
 
   emitImageGenerationError(socketId: string, data: ErrorData): void {
-    this.io?.to(socketId).emit('image_generation_error', data);
+    this.emitToRoom(socketId, 'image_generation_error', data);
   }
 
   // Processing Events
   emitProcessingComplete(socketId: string, data: ProcessingCompleteData): void {
-    this.io?.to(socketId).emit('processing_complete', data);
+    this.emitToRoom(socketId, 'processing_complete', data);
   }
 
   emitProcessingError(socketId: string, data: ErrorData): void {
-    this.io?.to(socketId).emit('processing_error', data);
+    this.emitToRoom(socketId, 'processing_error', data);
+  }
+
+  emitProcessingCancelled(socketId: string, data: ProcessingCancelledData): void {
+    this.emitToRoom(socketId, 'processing_cancelled', data);
   }
 
   // Utility Methods
@@ -5,6 +5,109 @@ export interface MenuItem {
   price?: string;
   category?: string;
   imageUrl?: string;
+  // 1-based page of a multi-page upload the item was found on
+  page?: number;
+  // Where on the uploaded page the item's name was read (OCR mode only)
+  sourceRegion?: SourceRegion;
+  dietary?: DietaryInfo;
+  // Only when the upload came with a dietary profile
+  suitability?: Suitability;
+  // `price` read into numbers; absent when it has none ("market price")
+  parsedPrice?: ParsedPrice;
+  // The item in the job's other target languages, keyed by language code
+  translations?: Record<string, ItemTranslation>;
+}
+
+export interface ItemTranslation {
+  name: string;
+  description: string;
+  // The model's suitability reason; coded reasons are worded by the client instead
+  reason?: string;
+}
+
+export interface PriceOption {
+  // e.g. "S", "Glass"; only for multi-size prices
+  size?: string;
+  amount: number;
+}
+
+export interface ParsedPrice {
+  // ISO 4217; absent when neither the price nor the menu's language gives it away
+  currency?: string;
+  options: PriceOption[];
+  // In the diner's home currency, when they asked for it and a rate is known
+  converted?: {
+    currency: string;
+    options: PriceOption[];
+  };
+}
+
+// Inferred by the LLM from the dish and its description, so never authoritative
+export interface DietaryInfo {
+  // null when it can't be told from the menu
+  vegetarian: boolean | null;
+  vegan: boolean | null;
+  halal: boolean | null;
+  glutenFree: boolean | null;
+  // Likely present, from the 14 EU allergens (see EU_ALLERGENS)
+  allergens: string[];
+  // 0 (not spicy) to 3 (very hot)
+  spiceLevel: number | null;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+// The diner's own needs, kept in their browser and sent with each upload
+export interface DietaryProfile {
+  // EU allergen keys
+  allergies: string[];
+  // DietaryInfo flags the diner requires, e.g. 'vegan'
+  restrictions: string[];
+  // Free-text ingredients, e.g. "coriander"
+  dislikes: string[];
+}
+
+// Why the server overrode the model's verdict, for clients to word in their own language
+export type SuitabilityReasonCode = 'unchecked' | 'contains_allergens' | 'breaks_restrictions' | 'unclear';
+
+export interface Suitability {
+  verdict: 'safe' | 'caution' | 'avoid';
+  // The model's explanation in the target language; an English fallback when `reasonCode` is set
+  reason: string;
+  reasonCode?: SuitabilityReasonCode;
+  // Allergen keys for contains_allergens, restriction keys for breaks_restrictions
+  reasonDetails?: string[];
+}
+
+// Pixel coordinates in the uploaded image, after EXIF orientation is applied
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OCRWord {
+  text: string;
+  confidence: number;
+  bbox: BoundingBox;
+}
+
+export interface OCRLine {
+  text: string;
+  confidence: number;
+  bbox: BoundingBox;
+  words: OCRWord[];
+}
+
+export interface SourceRegion {
+  bbox: BoundingBox;
+  // Price printed on the same line, if it could be located
+  priceBbox?: BoundingBox;
+  // Size of the page image the box refers to, for scaling onto a preview
+  imageWidth: number;
+  imageHeight: number;
+  confidence: number;
+  lowConfidence: boolean;
 }
 
 export interface TranslationResponse {
@@ -13,6 +116,8 @@ export interface TranslationResponse {
   translatedMenu: MenuItem[];
   sourceLanguage?: string;
   targetLanguage: string;
+  // Languages found in each item's `translations`
+  additionalLanguages?: string[];
   confidence?: number;
   processingTime: number;
   error?: string;
@@ -20,5 +125,50 @@ export interface TranslationResponse {
 
 export interface TranslationRequest {
   targetLanguage?: string;
+  targetLanguages?: string[];
   generateImages?: boolean;
-}
\ No newline at end of file
+}
+
+export type JobStage =
+  | 'queued'
+  | 'ocr'
+  | 'translation'
+  | 'image_generation'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export type JobItemStatus = 'pending' | 'generating' | 'done' | 'failed' | 'skipped';
+
+export interface JobItemState {
+  index: number;
+  name: string;
+  status: JobItemStatus;
+  imageUrl?: string;
+  fallback?: boolean;
+  error?: string;
+}
+
+export interface Job {
+  id: string;
+  socketId: string;
+  stage: JobStage;
+  targetLanguage: string;
+  additionalLanguages?: string[];
+  generateImages: boolean;
+  // Kept so a re-translation judges and converts items like the first run did
+  dietaryProfile?: DietaryProfile;
+  homeCurrency?: string;
+  createdAt: string;
+  updatedAt: string;
+  ocr?: {
+    text: string;
+    confidence: number;
+    language?: string;
+    preprocessed?: boolean;
+    extractionMode?: 'ocr' | 'vision';
+  };
+  items: JobItemState[];
+  result?: TranslationResponse;
+  error?: string;
+}
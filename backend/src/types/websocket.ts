@@ -1,8 +1,9 @@
-import { MenuItem } from '../types';
+import { ItemTranslation, MenuItem, OCRLine } from '../types';
 
 export interface WebSocketEvents {
   // Client to Server
-  join_room: (socketId: string) => void;
+  join_room: (roomId: string, options?: JoinRoomOptions) => void;
+  cancel_job: (jobId: string, ack?: (response: { success: boolean; error?: string }) => void) => void;
   
   // Server to Client
   // OCR Events
@@ -14,7 +15,11 @@ export interface WebSocketEvents {
   // Translation Events
   translation_started: () => void;
   translation_progress: (data: SubStepProgressData) => void;
+  translation_partial: (data: TranslationPartialData) => void;
+  translation_item: (data: TranslationItemData) => void;
+  translation_retracted: (data: TranslationRetractedData) => void;
   translation_complete: (data: TranslationCompleteData) => void;
+  translation_language: (data: TranslationLanguageData) => void;
   translation_error: (data: ErrorData) => void;
   
   // Image Generation Events
@@ -26,6 +31,19 @@ export interface WebSocketEvents {
   // Overall Processing Events
   processing_complete: (data: ProcessingCompleteData) => void;
   processing_error: (data: ErrorData) => void;
+  processing_cancelled: (data: ProcessingCancelledData) => void;
+}
+
+export interface JoinRoomOptions {
+  // Last event the client saw; everything after it is replayed on join
+  lastEventId?: number;
+}
+
+// Sent as the last argument of every server event
+export interface EventMeta {
+  eventId: number;
+  timestamp: string;
+  replayed?: boolean;
 }
 
 export interface SubStepProgressData {
@@ -42,18 +60,77 @@ export interface OCRCompleteData {
   text: string;
   confidence: number;
   processingTime: number;
+  // Tesseract language(s) used, e.g. 'jpn+eng'
+  language?: string;
+  preprocessed?: boolean;
+  // 'vision' means a multimodal model read the menu and `text` was rebuilt from its items
+  extractionMode?: 'ocr' | 'vision';
+  pages?: OCRPageData[];
+}
+
+export interface OCRPageData {
+  page: number;
+  text: string;
+  confidence: number;
+  // 'pdf_text' pages came from a PDF's embedded text layer and skipped OCR
+  source?: 'ocr' | 'pdf_text' | 'vision';
+  language?: string;
+  detectedScript?: string;
+  preprocessed?: boolean;
+  // OCR pages only: recognized lines, boxed in the page image's own pixel coordinates
+  lines?: OCRLine[];
+  imageWidth?: number;
+  imageHeight?: number;
+}
+
+// Items from one chunk of a long menu, sent as soon as that chunk is translated. The full,
+// de-duplicated list still arrives with translation_complete.
+export interface TranslationPartialData {
+  items: MenuItem[];
+  chunk: number;
+  totalChunks: number;
+  sourceLanguage: string;
+}
+
+// One item streamed out of the model before the translation has finished
+export interface TranslationItemData {
+  item: MenuItem;
+  // Order of arrival, starting at 0
+  index: number;
+}
+
+// Streamed items whose reply was rejected; the model is asked again and may stream them anew
+export interface TranslationRetractedData {
+  // `translation_item` indexes
+  indexes: number[];
 }
 
 export interface TranslationCompleteData {
+  // Items carry `dietary` (flags, allergens, spice level) when the model could assess it
   translatedMenu: MenuItem[];
   sourceLanguage: string;
   targetLanguage: string;
   processingTime: number;
 }
 
+// The completed menu in one of the job's other target languages
+export interface TranslationLanguageData {
+  targetLanguage: string;
+  // Aligned with `translation_complete`'s items; null where one couldn't be translated
+  translations: Array<ItemTranslation | null>;
+  // Set when the whole language failed; the other languages are unaffected
+  error?: string;
+}
+
 export interface ImageGeneratedData {
   imageUrl: string;
   itemName: string;
+  // Position of the item in `translation_complete`'s items. Names aren't unique: the same
+  // dish can be on two pages or come in two sizes.
+  itemIndex?: number;
+  // Set instead of `itemIndex` for a streamed item whose image is ready before the menu
+  // is complete; it's the `translation_item` event's `index`
+  streamIndex?: number;
   processingTime: number;
   progress?: {
     current: number;
@@ -75,6 +152,12 @@ export interface ProcessingCompleteData {
   };
 }
 
+export interface ProcessingCancelledData {
+  jobId: string;
+  stage: string;
+  totalProcessingTime: number;
+}
+
 export interface ErrorData {
   error: string;
   step: 'ocr' | 'translation' | 'image_generation' | 'general';
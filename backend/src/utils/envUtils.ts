@@ -0,0 +1,21 @@
+// Settings already warned about, so a getter read in a loop doesn't flood the log
+const reportedSettings = new Set<string>();
+
+/**
+ * Reads a setting that must be a positive integer. Unset, blank or invalid values (a typo,
+ * 0, -1, 2.5) fall back to `fallback`, since a count or size of 0 would stall the work it
+ * sizes rather than fail.
+ */
+export function positiveIntegerEnv(name: string, fallback: number): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (Number.isInteger(value) && value > 0) return value;
+
+  if (!reportedSettings.has(name)) {
+    reportedSettings.add(name);
+    console.warn(`${name}=${raw} is not a positive integer, using ${fallback}`);
+  }
+  return fallback;
+}
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { adaptiveThreshold, estimateSkewAngle } from './imagePreprocessing';
+
+// Dark bars standing in for lines of text, turned `angle` degrees clockwise
+async function textLines(angle: number): Promise<{ pixels: Buffer; width: number; height: number }> {
+  const width = 1200;
+  const height = 900;
+  const bars = [150, 280, 410, 540, 670].map((y) => `<rect x="200" y="${y}" width="800" height="24" fill="#000"/>`);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <rect width="100%" height="100%" fill="#fff"/>
+    <g transform="rotate(${angle} ${width / 2} ${height / 2})">${bars.join('')}</g>
+  </svg>`;
+  const { data, info } = await sharp(Buffer.from(svg)).grayscale().raw().toBuffer({ resolveWithObject: true });
+  return { pixels: data, width: info.width, height: info.height };
+}
+
+test('finds how far text lines are turned', async () => {
+  for (const angle of [0, 3, -4.5, 7]) {
+    const { pixels, width, height } = await textLines(angle);
+    assert.equal(estimateSkewAngle(pixels, width, height), angle, `turned ${angle}°`);
+  }
+});
+
+test('a blank page has no skew', () => {
+  assert.equal(estimateSkewAngle(Buffer.alloc(100 * 100, 255), 100, 100), 0);
+});
+
+test('thresholds against the neighbourhood, not one global cutoff', () => {
+  // Lit from the right: the background goes from 60 to 240, text is 50 darker than around it
+  const width = 320;
+  const height = 40;
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const background = 60 + Math.round((x / width) * 180);
+      const isText = y >= 18 && y < 22 && x % 40 < 20;
+      pixels[y * width + x] = isText ? background - 50 : background;
+    }
+  }
+
+  const output = adaptiveThreshold(pixels, width, height);
+  const at = (x: number, y: number) => output[y * width + x];
+
+  // Text is black and paper is white in the dark corner as well as the bright one
+  assert.equal(at(5, 20), 0);
+  assert.equal(at(285, 20), 0);
+  assert.equal(at(5, 5), 255);
+  assert.equal(at(285, 5), 255);
+  assert.equal(at(30, 20), 255);
+  // A global cutoff of 128 would have blackened the whole dark side
+  assert.ok(pixels[5 * width + 5] < 128);
+});
@@ -0,0 +1,112 @@
+// Pixel-level helpers for OCR preprocessing. All functions work on single-channel 8-bit
+// grayscale buffers as produced by sharp's `.raw()` output.
+
+/**
+ * Estimates how far text lines are rotated from horizontal, in degrees. Dark pixels are
+ * projected onto the vertical axis at each candidate angle; the angle where the row
+ * histogram is "peakiest" (highest variance) is the one where lines are level.
+ */
+export function estimateSkewAngle(
+  pixels: Buffer,
+  width: number,
+  height: number,
+  maxAngle = 10,
+  step = 0.5
+): number {
+  const darkThreshold = 128;
+  // Sampling keeps this cheap on large images; skew only needs the overall distribution
+  const maxSamples = 20000;
+
+  let darkCount = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    if (pixels[i] < darkThreshold) darkCount++;
+  }
+  if (darkCount === 0) return 0;
+
+  const stride = Math.max(1, Math.floor(darkCount / maxSamples));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let seen = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[y * width + x] < darkThreshold && seen++ % stride === 0) {
+        xs.push(x - width / 2);
+        ys.push(y - height / 2);
+      }
+    }
+  }
+
+  const diagonal = Math.ceil(Math.sqrt(width * width + height * height));
+  const histogram = new Float64Array(diagonal + 1);
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let angle = -maxAngle; angle <= maxAngle; angle += step) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    histogram.fill(0);
+
+    for (let i = 0; i < xs.length; i++) {
+      const row = Math.round(ys[i] * cos - xs[i] * sin + diagonal / 2);
+      if (row >= 0 && row <= diagonal) histogram[row]++;
+    }
+
+    let sumSquares = 0;
+    for (let i = 0; i < histogram.length; i++) {
+      sumSquares += histogram[i] * histogram[i];
+    }
+
+    // The sample count is fixed, so the sum of squares orders angles the same way variance does
+    if (sumSquares > bestScore) {
+      bestScore = sumSquares;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+}
+
+/**
+ * Bradley-Roth adaptive thresholding: each pixel is compared to the mean of its
+ * neighbourhood rather than one global cutoff, so shadows and uneven restaurant lighting
+ * don't swallow half the page.
+ */
+export function adaptiveThreshold(
+  pixels: Buffer,
+  width: number,
+  height: number,
+  windowFraction = 1 / 16,
+  sensitivity = 0.15
+): Buffer {
+  const half = Math.max(1, Math.floor((width * windowFraction) / 2));
+  // Integral image with a zero row/column so window sums need no bounds special-casing
+  const integral = new Float64Array((width + 1) * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += pixels[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const output = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - half);
+    const y2 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - half);
+      const x2 = Math.min(width, x + half + 1);
+      const count = (x2 - x1) * (y2 - y1);
+      const sum = integral[y2 * (width + 1) + x2]
+        - integral[y1 * (width + 1) + x2]
+        - integral[y2 * (width + 1) + x1]
+        + integral[y1 * (width + 1) + x1];
+
+      output[y * width + x] = pixels[y * width + x] * count <= sum * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+
+  return output;
+}
@@ -2,6 +2,23 @@ export function validateImageQuality(buffer: Buffer, mimetype: string): { isVali
   const minSize = 1024; // 1KB minimum
   const maxSize = 10 * 1024 * 1024; // 10MB maximum
   
+  if (mimetype === 'application/pdf') {
+    // Text-only PDFs can legitimately be smaller than the image minimum
+    if (buffer.length > maxSize) {
+      return {
+        isValid: false,
+        message: 'PDF file is too large. Maximum size is 10MB.',
+      };
+    }
+    if (!buffer.subarray(0, 5).equals(Buffer.from('%PDF-'))) {
+      return {
+        isValid: false,
+        message: 'Invalid PDF file. Please upload a valid PDF menu.',
+      };
+    }
+    return { isValid: true };
+  }
+
   if (buffer.length < minSize) {
     return {
       isValid: false,
@@ -36,6 +53,19 @@ export function validateImageQuality(buffer: Buffer, mimetype: string): { isVali
   return { isValid: true };
 }
 
+/**
+ * MIME type of an image read from its magic bytes, or null if it isn't one we serve. Used
+ * instead of whatever Content-Type the image was downloaded with.
+ */
+export function detectImageContentType(buffer: Buffer): string | null {
+  if (buffer.subarray(0, 3).equals(Buffer.from([0xFF, 0xD8, 0xFF]))) return 'image/jpeg';
+  if (buffer.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4E, 0x47]))) return 'image/png';
+  if (buffer.subarray(0, 4).equals(Buffer.from('RIFF')) && buffer.subarray(8, 12).equals(Buffer.from('WEBP'))) return 'image/webp';
+  if (buffer.subarray(0, 4).equals(Buffer.from('GIF8'))) return 'image/gif';
+  if (buffer.subarray(4, 12).equals(Buffer.from('ftypavif'))) return 'image/avif';
+  return null;
+}
+
 export function estimateTextComplexity(text: string): 'low' | 'medium' | 'high' {
   const wordCount = text.split(/\s+/).length;
   const hasSpecialChars = /[^\w\s.,!?()-]/.test(text);
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonArrayStreamParser } from './incrementalJson';
+
+const reply = JSON.stringify({
+  sourceLanguage: 'Italian',
+  notes: [{ name: 'not an item' }],
+  items: [
+    { name: 'Margherita Pizza', description: 'Tomato, mozzarella {and} basil', tags: ['veg'] },
+    { name: 'Tiramisu', description: 'Says "ciao]" \\ twice', price: '€6' },
+  ],
+});
+
+function pushInPieces(parser: JsonArrayStreamParser, text: string, size: number): unknown[][] {
+  const batches: unknown[][] = [];
+  for (let i = 0; i < text.length; i += size) {
+    batches.push(parser.push(text.substring(i, i + size)));
+  }
+  return batches;
+}
+
+test('returns each element of the keyed array once it is complete', () => {
+  const parsed = JSON.parse(reply);
+  for (const size of [1, 7, 16, reply.length]) {
+    const elements = pushInPieces(new JsonArrayStreamParser('items'), reply, size).flat();
+    assert.deepEqual(elements, parsed.items, `pieces of ${size}`);
+  }
+});
+
+test('an element is returned as soon as its closing brace arrives', () => {
+  const parser = new JsonArrayStreamParser('items');
+  const end = reply.indexOf('},{"name":"Tiramisu"') + 1;
+
+  assert.deepEqual(parser.push(reply.substring(0, end - 1)), []);
+  assert.deepEqual(parser.push(reply.substring(end - 1, end)), [JSON.parse(reply).items[0]]);
+  assert.deepEqual(parser.push(reply.substring(end)), [JSON.parse(reply).items[1]]);
+});
+
+test('skips elements that do not parse and keeps going', () => {
+  const parser = new JsonArrayStreamParser('items');
+  assert.deepEqual(parser.push('{"items":[{"name": 1,},{"name":"Bruschetta"}]}'), [{ name: 'Bruschetta' }]);
+});
+
+test('ignores arrays under other keys and nested objects', () => {
+  const parser = new JsonArrayStreamParser('items');
+  assert.deepEqual(parser.push('{"menu":{"items":[{"name":"nested"}]},"other":[{"items":[]}]}'), []);
+});
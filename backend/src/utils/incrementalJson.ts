@@ -0,0 +1,84 @@
+/**
+ * Pulls elements out of one array of a JSON object while the object is still arriving, e.g.
+ * the `items` of a streamed LLM reply. Each element is returned as soon as its closing brace
+ * is seen. Elements that don't parse on their own are skipped; validating the complete
+ * response remains the caller's job.
+ */
+export class JsonArrayStreamParser {
+  private buffer = '';
+  private position = 0;
+  // Open brackets, outermost first
+  private stack: string[] = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  // Last string closed at the top level of the object - the key when a value follows
+  private lastTopLevelString: string | null = null;
+  private inTargetArray = false;
+  private elementStart = -1;
+
+  constructor(private readonly key: string) {}
+
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const elements: unknown[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.stack.length === 1) {
+            this.lastTopLevelString = this.parse(this.buffer.substring(this.stringStart, this.position + 1)) as string | null;
+          }
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case '[':
+          if (this.stack.length === 1 && this.lastTopLevelString === this.key) {
+            this.inTargetArray = true;
+          }
+          this.stack.push(char);
+          break;
+        case '{':
+          if (this.inTargetArray && this.stack.length === 2) {
+            this.elementStart = this.position;
+          }
+          this.stack.push(char);
+          break;
+        case '}':
+        case ']':
+          this.stack.pop();
+          if (this.inTargetArray && this.stack.length === 2 && char === '}' && this.elementStart !== -1) {
+            const element = this.parse(this.buffer.substring(this.elementStart, this.position + 1));
+            if (element !== null) elements.push(element);
+            this.elementStart = -1;
+          } else if (this.inTargetArray && this.stack.length === 1) {
+            this.inTargetArray = false;
+          }
+          break;
+      }
+    }
+
+    return elements;
+  }
+
+  private parse(json: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return null;
+    }
+  }
+}
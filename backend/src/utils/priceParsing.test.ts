@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { inferCurrency, parsePrice } from './priceParsing';
+
+test('reads the amount the way the menu\'s language writes numbers', () => {
+  assert.deepEqual(parsePrice('€9.50', 'English'), { currency: 'EUR', options: [{ amount: 9.5 }] });
+  assert.deepEqual(parsePrice('9,50', 'Italian'), { currency: 'EUR', options: [{ amount: 9.5 }] });
+  assert.deepEqual(parsePrice('1.200,50 €', 'German'), { currency: 'EUR', options: [{ amount: 1200.5 }] });
+  assert.deepEqual(parsePrice('$1,200', 'English'), { currency: 'USD', options: [{ amount: 1200 }] });
+  assert.deepEqual(parsePrice('12 000 ₫', 'Vietnamese'), { currency: 'VND', options: [{ amount: 12000 }] });
+});
+
+test('"1.200" is thousands in whole-number currencies and in languages with a decimal comma', () => {
+  assert.deepEqual(parsePrice('¥1.200', 'Japanese'), { currency: 'JPY', options: [{ amount: 1200 }] });
+  assert.deepEqual(parsePrice('1.200', 'Italian'), { currency: 'EUR', options: [{ amount: 1200 }] });
+  assert.deepEqual(parsePrice('1.20', 'Italian'), { currency: 'EUR', options: [{ amount: 1.2 }] });
+});
+
+test('labels each amount of a multi-size price', () => {
+  assert.deepEqual(parsePrice('Small €5 / Large €8,50', 'Spanish'), {
+    currency: 'EUR',
+    options: [{ size: 'Small', amount: 5 }, { size: 'Large', amount: 8.5 }],
+  });
+});
+
+test('a price without a number is not a price', () => {
+  assert.equal(parsePrice('market price', 'English'), undefined);
+  assert.equal(parsePrice('S.Q.', 'Italian'), undefined);
+});
+
+test('infers the currency from codes, symbols and then the language', () => {
+  assert.equal(inferCurrency('CHF 12', 'German'), 'CHF');
+  assert.equal(inferCurrency('R$ 25', 'Spanish'), 'BRL');
+  assert.equal(inferCurrency('$25', 'Spanish'), 'MXN');
+  assert.equal(inferCurrency('¥38', 'Chinese'), 'CNY');
+  assert.equal(inferCurrency('95 kr', 'Danish'), 'DKK');
+  // "RM" inside a word is no symbol; Malay still means ringgit
+  assert.equal(inferCurrency('WARM 12', 'Malay'), 'MYR');
+  assert.equal(inferCurrency('12', 'Polish'), 'PLN');
+  // Too many countries speak it to guess
+  assert.equal(inferCurrency('12', 'English'), undefined);
+});
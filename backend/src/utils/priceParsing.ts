@@ -0,0 +1,130 @@
+import { ParsedPrice, PriceOption } from '../types';
+
+// Symbols that name one currency. Longer first, so "R$" wins over "$".
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ['US$', 'USD'], ['NT$', 'TWD'], ['HK$', 'HKD'], ['NZ$', 'NZD'], ['R$', 'BRL'], ['A$', 'AUD'],
+  ['C$', 'CAD'], ['S$', 'SGD'], ['zł', 'PLN'], ['Kč', 'CZK'], ['Ft', 'HUF'], ['€', 'EUR'],
+  ['£', 'GBP'], ['₩', 'KRW'], ['원', 'KRW'], ['₹', 'INR'], ['฿', 'THB'], ['₫', 'VND'],
+  ['₺', 'TRY'], ['₽', 'RUB'], ['₴', 'UAH'], ['₪', 'ILS'], ['₱', 'PHP'], ['円', 'JPY'],
+  ['元', 'CNY'], ['RM', 'MYR'], ['Rp', 'IDR'],
+];
+
+// Letter symbols must stand alone, so "RM" doesn't match inside "WARM"
+const SYMBOL_PATTERNS: Array<[RegExp, string]> = CURRENCY_SYMBOLS.map(([symbol, currency]) => {
+  const escaped = symbol.replace(/[$]/g, '\\$&');
+  return [new RegExp(/^[A-Za-z]+$/.test(symbol) ? `\\b${escaped}\\b` : escaped, 'g'), currency];
+});
+
+// Symbols shared by several currencies: the menu's language picks one, else the fallback
+const AMBIGUOUS_SYMBOLS: Array<[RegExp, { fallback: string; byLanguage: Record<string, string> }]> = [
+  [/\$/, { fallback: 'USD', byLanguage: { spanish: 'MXN', portuguese: 'BRL', chinese: 'TWD' } }],
+  [/¥|￥/, { fallback: 'JPY', byLanguage: { chinese: 'CNY' } }],
+  [/\bkr\b/i, { fallback: 'SEK', byLanguage: { norwegian: 'NOK', danish: 'DKK', icelandic: 'ISK' } }],
+];
+
+const CURRENCY_CODES = new Set([
+  'EUR', 'USD', 'GBP', 'JPY', 'CNY', 'KRW', 'INR', 'THB', 'VND', 'TRY', 'RUB', 'UAH', 'PLN', 'CZK',
+  'HUF', 'RON', 'BGN', 'SEK', 'NOK', 'DKK', 'ISK', 'CHF', 'BRL', 'MXN', 'AUD', 'CAD', 'NZD', 'HKD',
+  'SGD', 'TWD', 'ILS', 'PHP', 'MYR', 'IDR', 'AED', 'ZAR',
+]);
+
+// When the price itself has no symbol. English is left out: too many countries.
+const LANGUAGE_CURRENCIES: Record<string, string> = {
+  italian: 'EUR', french: 'EUR', german: 'EUR', spanish: 'EUR', portuguese: 'EUR', dutch: 'EUR',
+  greek: 'EUR', finnish: 'EUR', estonian: 'EUR', latvian: 'EUR', lithuanian: 'EUR', slovak: 'EUR',
+  slovenian: 'EUR', croatian: 'EUR', maltese: 'EUR', japanese: 'JPY', chinese: 'CNY', korean: 'KRW',
+  thai: 'THB', vietnamese: 'VND', turkish: 'TRY', russian: 'RUB', ukrainian: 'UAH', polish: 'PLN',
+  czech: 'CZK', hungarian: 'HUF', romanian: 'RON', bulgarian: 'BGN', swedish: 'SEK', norwegian: 'NOK',
+  danish: 'DKK', icelandic: 'ISK', hindi: 'INR', hebrew: 'ILS', indonesian: 'IDR', malay: 'MYR',
+  filipino: 'PHP', tagalog: 'PHP',
+};
+
+// Number formats of these languages use a decimal point; most others write "9,50"
+const DECIMAL_POINT_LANGUAGES = new Set([
+  'english', 'japanese', 'chinese', 'korean', 'thai', 'hindi', 'hebrew', 'malay', 'filipino', 'tagalog',
+]);
+
+// Prices in these are whole numbers, so "1.200" can only mean twelve hundred
+const ZERO_DECIMAL_CURRENCIES = new Set(['JPY', 'KRW', 'VND', 'IDR', 'HUF', 'ISK']);
+
+// Digits with optional thousands groups and a 1-2 digit fraction: "9.50", "1.200,50", "12 000"
+const AMOUNT_PATTERN = /\d+(?:[.,'\u00A0\u202F ]\d{3})*(?:[.,]\d{1,2})?/g;
+
+function languageKey(sourceLanguage?: string): string {
+  return (sourceLanguage || '').trim().toLowerCase().split(/[\s(]/)[0];
+}
+
+export function inferCurrency(price: string, sourceLanguage?: string): string | undefined {
+  const language = languageKey(sourceLanguage);
+
+  const code = price.match(/\b[A-Z]{3}\b/g)?.find((candidate) => CURRENCY_CODES.has(candidate));
+  if (code) return code;
+
+  const symbol = SYMBOL_PATTERNS.find(([pattern]) => price.search(pattern) !== -1);
+  if (symbol) return symbol[1];
+
+  const ambiguous = AMBIGUOUS_SYMBOLS.find(([pattern]) => pattern.test(price));
+  if (ambiguous) return ambiguous[1].byLanguage[language] ?? ambiguous[1].fallback;
+
+  return LANGUAGE_CURRENCIES[language];
+}
+
+function isDecimalSeparator(digits: string, lastSeparator: number, currency: string | undefined, decimalComma: boolean): boolean {
+  const separator = digits[lastSeparator];
+  // "1.200,50": the last one is the decimal separator
+  if (digits.includes('.') && digits.includes(',')) return true;
+  // "1.200.000"
+  if (digits.indexOf(separator) !== lastSeparator) return false;
+  // "9.5", "9,50": thousands groups always have three digits
+  if (digits.length - lastSeparator - 1 !== 3) return true;
+  // "1.200" or "1,200" is ambiguous; whole-number currencies and the language's convention decide
+  if (ZERO_DECIMAL_CURRENCIES.has(currency ?? '')) return false;
+  return (separator === ',') === decimalComma;
+}
+
+function parseAmount(raw: string, currency: string | undefined, decimalComma: boolean): number {
+  const digits = raw.replace(/['\u00A0\u202F ]/g, '');
+  const lastSeparator = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','));
+  if (lastSeparator === -1) return Number(digits);
+
+  if (!isDecimalSeparator(digits, lastSeparator, currency, decimalComma)) {
+    return Number(digits.replace(/[.,]/g, ''));
+  }
+  return Number(`${digits.substring(0, lastSeparator).replace(/[.,]/g, '')}.${digits.substring(lastSeparator + 1)}`);
+}
+
+// "Small €" -> "Small"; "$" -> undefined
+function sizeLabel(text: string): string | undefined {
+  const label = SYMBOL_PATTERNS
+    .reduce((remaining, [pattern]) => remaining.replace(pattern, ' '), text)
+    .replace(/\b[A-Z]{3}\b/g, (code) => (CURRENCY_CODES.has(code) ? ' ' : code))
+    .replace(/\bkr\b/gi, ' ')
+    .replace(/[^\p{L}\p{N}\s.]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return label || undefined;
+}
+
+/**
+ * Turns a menu price such as "€9.50", "9,50", "¥1,200" or "S 5 / L 8" into amounts and an ISO
+ * 4217 currency. Each amount is labelled with the text in front of it, for multi-size
+ * prices. Returns undefined when there is no number at all ("market price").
+ */
+export function parsePrice(price: string, sourceLanguage?: string): ParsedPrice | undefined {
+  const currency = inferCurrency(price, sourceLanguage);
+  const decimalComma = !DECIMAL_POINT_LANGUAGES.has(languageKey(sourceLanguage));
+  const options: PriceOption[] = [];
+  let previousEnd = 0;
+
+  for (const match of price.matchAll(AMOUNT_PATTERN)) {
+    const size = sizeLabel(price.substring(previousEnd, match.index));
+    previousEnd = match.index + match[0].length;
+
+    const amount = parseAmount(match[0], currency, decimalComma);
+    if (!Number.isFinite(amount)) continue;
+    options.push(size ? { size, amount } : { amount });
+  }
+
+  if (options.length === 0) return undefined;
+  return currency ? { currency, options } : { options };
+}
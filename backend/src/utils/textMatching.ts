@@ -0,0 +1,59 @@
+const SEPARATORS = /[\p{P}\p{S}\s]+/gu;
+
+// A containment ranks below an exact match, and one inside a longer word ("tea" in
+// "steak") below one made of whole words, so short names find their own line
+const WHOLE_WORD_SCORE = 0.95;
+const SUBSTRING_SCORE = 0.8;
+
+function fold(text: string): string {
+  return text.normalize('NFKD').replace(/\p{M}+/gu, '').toLowerCase();
+}
+
+function wordSequence(text: string): string {
+  return ` ${fold(text).split(SEPARATORS).filter(Boolean).join(' ')} `;
+}
+
+/**
+ * Lowercases, folds compatibility forms (full-width digits, ligatures), strips accents
+ * (the English-only OCR whitelist drops them) and removes whitespace and punctuation, so
+ * OCR noise like "Tiramisu  ....." still matches "Tiramisù".
+ */
+export function normalizeForMatching(text: string): string {
+  return fold(text).replace(SEPARATORS, '');
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const chars = Array.from(text);
+  for (let i = 0; i < chars.length - 1; i++) {
+    const gram = chars[i] + chars[i + 1];
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Similarity between 0 and 1 of `needle` to (part of) `haystack`. An exact match scores 1,
+ * containment as whole words or inside a word a fixed score just below; otherwise the Dice
+ * coefficient of character bigrams, which works without word boundaries and so also for
+ * CJK and Thai text.
+ */
+export function textSimilarity(needle: string, haystack: string): number {
+  const a = normalizeForMatching(needle);
+  const b = normalizeForMatching(haystack);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (b.includes(a)) {
+    return wordSequence(haystack).includes(wordSequence(needle)) ? WHOLE_WORD_SCORE : SUBSTRING_SCORE;
+  }
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let overlap = 0;
+  for (const [gram, count] of gramsA) {
+    overlap += Math.min(count, gramsB.get(gram) || 0);
+  }
+
+  return (2 * overlap) / (Array.from(a).length - 1 + Array.from(b).length - 1);
+}
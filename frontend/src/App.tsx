@@ -1,9 +1,37 @@
-import { useState, useRef, useEffect } from 'react'
-import { websocketService, type WebSocketCallbacks } from './services/websocketService'
+import { useState, useRef, useEffect, useMemo } from 'react'
+import { websocketService, type DietaryInfo, type DietaryProfile, type ItemTranslation, type Suitability, type TargetLanguage, type WebSocketCallbacks } from './services/websocketService'
 import './App.css'
 
 type ProcessingStage = 'idle' | 'uploading' | 'processing' | 'translating' | 'generating' | 'completed' | 'error'
 
+// Where on the uploaded photo an item's name was read, in that photo's pixels
+interface BoundingBox {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+interface SourceRegion {
+  bbox: BoundingBox
+  priceBbox?: BoundingBox
+  imageWidth: number
+  imageHeight: number
+  confidence: number
+  lowConfidence: boolean
+}
+
+interface PriceOption {
+  size?: string
+  amount: number
+}
+
+interface ParsedPrice {
+  currency?: string
+  options: PriceOption[]
+  converted?: { currency: string; options: PriceOption[] }
+}
+
 interface MenuItem {
   id: string
   name: string
@@ -12,29 +40,192 @@ interface MenuItem {
   price?: string
   category?: string
   imageUrl?: string
+  page?: number
+  sourceRegion?: SourceRegion
+  dietary?: DietaryInfo
+  suitability?: Suitability
+  parsedPrice?: ParsedPrice
+  // Keyed by language code, for the job's languages after the first
+  translations?: Record<string, ItemTranslation>
   isGenerating?: boolean
 }
 
+const DIETARY_BADGES: { flag: 'vegan' | 'vegetarian' | 'halal' | 'glutenFree'; label: string }[] = [
+  { flag: 'vegan', label: '🌱 Vegan' },
+  { flag: 'vegetarian', label: '🥕 Vegetarian' },
+  { flag: 'halal', label: '☪️ Halal' },
+  { flag: 'glutenFree', label: '🌾 Gluten-free' },
+]
+
+const ALLERGEN_LABELS: Record<string, string> = {
+  gluten: 'Gluten',
+  crustaceans: 'Crustaceans',
+  eggs: 'Eggs',
+  fish: 'Fish',
+  peanuts: 'Peanuts',
+  soybeans: 'Soy',
+  milk: 'Milk',
+  nuts: 'Tree nuts',
+  celery: 'Celery',
+  mustard: 'Mustard',
+  sesame: 'Sesame',
+  sulphites: 'Sulphites',
+  lupin: 'Lupin',
+  molluscs: 'Molluscs',
+}
+
+const MAX_MENU_PAGES = 6
+
+const DIETARY_PROFILE_STORAGE_KEY = 'dietaryProfile'
+const EMPTY_DIETARY_PROFILE: DietaryProfile = { allergies: [], restrictions: [], dislikes: [] }
+
+// The profile never leaves this device except as part of an upload
+const loadDietaryProfile = (): DietaryProfile => {
+  try {
+    return { ...EMPTY_DIETARY_PROFILE, ...JSON.parse(localStorage.getItem(DIETARY_PROFILE_STORAGE_KEY) ?? '{}') }
+  } catch {
+    return EMPTY_DIETARY_PROFILE
+  }
+}
+
+const HOME_CURRENCY_STORAGE_KEY = 'homeCurrency'
+
+// Matches the backend's limit; the first language is the one the menu is read into
+const MAX_TARGET_LANGUAGES = 4
+const TARGET_LANGUAGES_STORAGE_KEY = 'targetLanguages'
+// Until the backend's list arrives
+const DEFAULT_TARGET_LANGUAGES: TargetLanguage[] = [{ code: 'en', name: 'English' }]
+
+const loadTargetLanguages = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TARGET_LANGUAGES_STORAGE_KEY) ?? '[]')
+    return Array.isArray(stored) && stored.length > 0 ? stored.map(String) : ['en']
+  } catch {
+    return ['en']
+  }
+}
+
+// Rendered width of a dish photo: a full-width card on phones, a quarter of the grid otherwise
+const DISH_IMAGE_SIZES = '(max-width: 768px) 100vw, 300px'
+
+// e.g. "S US$5.40 · L US$9.18"
+const formatPriceOptions = (options: PriceOption[], currency: string) => options
+  .map(option => {
+    const amount = new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(option.amount)
+    return option.size ? `${option.size} ${amount}` : amount
+  })
+  .join(' · ')
+
+type SuitabilityFilter = 'all' | 'hide-avoid' | 'safe-only'
+
+const SUITABILITY_LABELS: Record<Suitability['verdict'], string> = {
+  safe: '✅ Suits you',
+  caution: '⚠️ Check first',
+  avoid: '⛔ Avoid',
+}
+
+const RESTRICTION_LABELS: Record<string, string> = {
+  vegetarian: 'vegetarian',
+  vegan: 'vegan',
+  halal: 'halal',
+  glutenFree: 'gluten-free',
+}
+
+// Verdicts the backend decided itself come as codes, worded here like the rest of the page
+const suitabilityReason = (suitability: Suitability): string => {
+  const details = suitability.reasonDetails ?? []
+  switch (suitability.reasonCode) {
+    case 'unchecked':
+      return 'Could not be checked against your profile'
+    case 'contains_allergens':
+      return `Likely contains ${details.map(allergen => (ALLERGEN_LABELS[allergen] ?? allergen).toLowerCase()).join(', ')}`
+    case 'breaks_restrictions':
+      return `Not ${details.map(restriction => RESTRICTION_LABELS[restriction] ?? restriction).join(' or ')}`
+    case 'unclear':
+      return 'The menu does not say enough to be sure — check with staff'
+    default:
+      return suitability.reason
+  }
+}
+
+interface UploadPreview {
+  name: string
+  // Data URL for photos; PDFs are shown as a file tile instead
+  url?: string
+}
+
+// Language of the menu itself; 'auto' lets the backend detect the script
+const OCR_LANGUAGE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'eng', label: 'English' },
+  { value: 'fra', label: 'French' },
+  { value: 'deu', label: 'German' },
+  { value: 'spa', label: 'Spanish' },
+  { value: 'ita', label: 'Italian' },
+  { value: 'por', label: 'Portuguese' },
+  { value: 'vie', label: 'Vietnamese' },
+  { value: 'ell', label: 'Greek' },
+  { value: 'rus', label: 'Russian' },
+  { value: 'jpn', label: 'Japanese' },
+  { value: 'chi_sim', label: 'Chinese (Simplified)' },
+  { value: 'chi_tra', label: 'Chinese (Traditional)' },
+  { value: 'kor', label: 'Korean' },
+  { value: 'tha', label: 'Thai' },
+  { value: 'ara', label: 'Arabic' },
+  { value: 'heb', label: 'Hebrew' },
+  { value: 'hin', label: 'Hindi' },
+]
+
+const readAsDataURL = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = (e) => resolve(e.target?.result as string)
+  reader.onerror = () => reject(reader.error)
+  reader.readAsDataURL(file)
+})
+
 function App() {
   const [stage, setStage] = useState<ProcessingStage>('idle')
   const [subStepMessage, setSubStepMessage] = useState<string>('')
   const [menuItems, setMenuItems] = useState<MenuItem[]>([])
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null)
+  const [uploadedImages, setUploadedImages] = useState<UploadPreview[]>([])
+  const [currentJobId, setCurrentJobId] = useState<string | null>(null)
+  // Kept after the job finishes, so it can be translated into more languages
+  const [lastJobId, setLastJobId] = useState<string | null>(null)
+  const [ocrLanguage, setOcrLanguage] = useState('auto')
+  const [useVisionModel, setUseVisionModel] = useState(false)
+  const [highlightedItemId, setHighlightedItemId] = useState<string | null>(null)
+  const [showTranslatedPhoto, setShowTranslatedPhoto] = useState(false)
+  const [dietaryProfile, setDietaryProfile] = useState<DietaryProfile>(loadDietaryProfile)
+  // Kept as typed so commas and spaces aren't eaten mid-edit
+  const [dislikesInput, setDislikesInput] = useState(() => dietaryProfile.dislikes.join(', '))
+  const [suitabilityFilter, setSuitabilityFilter] = useState<SuitabilityFilter>('all')
+  const [homeCurrency, setHomeCurrency] = useState(() => localStorage.getItem(HOME_CURRENCY_STORAGE_KEY) ?? '')
+  const [currencies, setCurrencies] = useState<string[]>([])
+  const [languages, setLanguages] = useState<TargetLanguage[]>(DEFAULT_TARGET_LANGUAGES)
+  const [targetLanguages, setTargetLanguages] = useState<string[]>(loadTargetLanguages)
+  // Language the current menu was translated into, and the one its cards are shown in
+  const [menuLanguage, setMenuLanguage] = useState('en')
+  const [displayLanguage, setDisplayLanguage] = useState<string | null>(null)
+  const dietaryProfileSize = dietaryProfile.allergies.length + dietaryProfile.restrictions.length + dietaryProfile.dislikes.length
   const fileInputRef = useRef<HTMLInputElement>(null)
   const videoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [isShowingCamera, setIsShowingCamera] = useState(false)
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file) {
-      const reader = new FileReader()
-      reader.onload = async (e) => {
-        setUploadedImage(e.target?.result as string)
-        await processImage(file)
-      }
-      reader.readAsDataURL(file)
+    const files = Array.from(event.target.files ?? [])
+    if (files.length === 0) return
+
+    if (files.length > MAX_MENU_PAGES) {
+      alert(`Please select at most ${MAX_MENU_PAGES} pages`)
+      return
     }
+
+    setUploadedImages(await Promise.all(files.map(async file => ({
+      name: file.name,
+      url: file.type === 'application/pdf' ? undefined : await readAsDataURL(file),
+    }))))
+    await processImage(files)
   }
 
   const startCamera = async () => {
@@ -63,7 +254,7 @@ function App() {
       context?.drawImage(video, 0, 0)
       
       const imageData = canvas.toDataURL('image/jpeg')
-      setUploadedImage(imageData)
+      setUploadedImages([{ name: 'Camera photo', url: imageData }])
       
       // Stop camera
       const stream = video.srcObject as MediaStream
@@ -73,7 +264,7 @@ function App() {
       // Convert canvas to blob and process
       try {
         const blob = await websocketService.canvasToBlob(canvas)
-        await processImage(blob)
+        await processImage([blob])
       } catch (error) {
         console.error('Failed to capture photo:', error)
         setStage('error')
@@ -81,7 +272,7 @@ function App() {
     }
   }
 
-  const processImage = async (imageFile: File | Blob) => {
+  const processImage = async (imageFiles: (File | Blob)[]) => {
     if (!websocketService.isSocketConnected()) {
       console.error('WebSocket not connected')
       setStage('error')
@@ -90,34 +281,64 @@ function App() {
 
     setStage('uploading')
     setMenuItems([]) // Clear previous results
+    setDisplayLanguage(null)
     
     try {
-      const result = await websocketService.uploadImage(imageFile, 'English', true)
+      const result = await websocketService.uploadImage(imageFiles, {
+        targetLanguages,
+        generateImages: true,
+        ocrLanguage,
+        extractionMode: useVisionModel ? 'vision' : 'ocr',
+        dietaryProfile: dietaryProfileSize > 0 ? dietaryProfile : undefined,
+        homeCurrency: homeCurrency || undefined,
+      })
       if (!result.success) {
         throw new Error(result.error || 'Upload failed')
       }
       console.log('Upload successful:', result)
+      setCurrentJobId(result.jobId ?? null)
+      setLastJobId(result.jobId ?? null)
     } catch (error) {
       console.error('Failed to upload image:', error)
       setStage('error')
     }
   }
 
+  const isProcessing = stage === 'uploading' || stage === 'processing' || stage === 'translating' || stage === 'generating'
+
+  const cancelProcessing = async () => {
+    if (currentJobId) {
+      // Stop the backend from spending more OCR/LLM/image credits on this menu
+      await websocketService.cancelJob(currentJobId).catch(error => {
+        console.error('Failed to cancel job:', error)
+      })
+    }
+    resetApp()
+  }
+
   const resetApp = () => {
+    setCurrentJobId(null)
+    setLastJobId(null)
     setStage('idle')
     setSubStepMessage('')
     setMenuItems([])
-    setUploadedImage(null)
+    setUploadedImages([])
     setIsShowingCamera(false)
+    setShowTranslatedPhoto(false)
+    setDisplayLanguage(null)
   }
 
-  // WebSocket callbacks
-  const websocketCallbacks: WebSocketCallbacks = {
+  // WebSocket callbacks. They only use state setters, so one set serves the whole session
+  const websocketCallbacks = useMemo((): WebSocketCallbacks => ({
     onConnectionStatus: (connected) => {
       console.log('WebSocket connection status:', connected)
-      if (!connected && stage !== 'idle') {
-        setStage('error')
-      }
+      // Missed events are replayed once we reconnect, so a dropped socket isn't fatal
+      setSubStepMessage(connected ? '' : '🔌 Connection lost, reconnecting...')
+    },
+
+    onConnectionFailed: () => {
+      console.error('WebSocket could not reconnect')
+      setStage(prev => prev === 'idle' || prev === 'completed' ? prev : 'error')
     },
     
     onOCRStarted: () => {
@@ -152,23 +373,65 @@ function App() {
       setSubStepMessage(data.message)
     },
     
+    onTranslationPartial: (data) => {
+      // Long menus arrive in chunks; translation_complete replaces these with the final list
+      const partialItems: MenuItem[] = data.items.map((item, index) => ({
+        ...item,
+        id: `partial-${data.chunk}-${index}`,
+        isGenerating: true
+      }))
+      setMenuItems(prev => [...prev, ...partialItems])
+    },
+
+    onTranslationItem: (data) => {
+      // Streamed as the model writes them, so cards appear one by one
+      setMenuItems(prev => [...prev, { ...data.item, id: `streamed-${data.index}`, isGenerating: true }])
+    },
+
+    onTranslationRetracted: (data) => {
+      const retracted = new Set(data.indexes.map(index => `streamed-${index}`))
+      setMenuItems(prev => prev.filter(item => !retracted.has(item.id)))
+    },
+
     onTranslationComplete: (data) => {
       console.log('Translation completed:', data)
       setSubStepMessage('')
-      // Convert backend MenuItem to frontend MenuItem format
-      const convertedItems: MenuItem[] = data.translatedMenu.map((item, index) => ({
-        id: `item-${index}`,
-        name: item.name,
-        originalName: item.originalName,
-        description: item.description,
-        price: item.price,
-        category: item.category,
-        imageUrl: item.imageUrl,
-        isGenerating: true // Will be set to false when images are generated
+      setMenuLanguage(data.targetLanguage)
+      // Convert backend MenuItem to frontend MenuItem format. Images of streamed items that
+      // already arrived come back on the items themselves.
+      setMenuItems(data.translatedMenu.map((item, index): MenuItem => {
+        const imageUrl = item.imageUrl
+        return {
+          id: `item-${index}`,
+          name: item.name,
+          originalName: item.originalName,
+          description: item.description,
+          price: item.price,
+          category: item.category,
+          imageUrl,
+          page: item.page,
+          sourceRegion: item.sourceRegion,
+          dietary: item.dietary,
+          suitability: item.suitability,
+          parsedPrice: item.parsedPrice,
+          translations: item.translations,
+          isGenerating: !imageUrl // Will be set to false when images are generated
+        }
       }))
-      setMenuItems(convertedItems)
     },
     
+    onTranslationLanguage: (data) => {
+      if (data.error) {
+        // The menu is still there in its first language
+        console.warn(`Translation into ${data.targetLanguage} failed:`, data.error)
+        return
+      }
+      setMenuItems(prev => prev.map((item, index) => {
+        const translation = data.translations[index]
+        return translation ? { ...item, translations: { ...item.translations, [data.targetLanguage]: translation } } : item
+      }))
+    },
+
     onTranslationError: (data) => {
       console.error('Translation error:', data)
       setStage('error')
@@ -187,9 +450,10 @@ function App() {
     
     onImageGenerated: (data) => {
       console.log('Image generated:', data)
-      // Update the specific menu item with the generated image
+      // Matched by position, since two items can share a name
+      const id = data.itemIndex !== undefined ? `item-${data.itemIndex}` : `streamed-${data.streamIndex}`
       setMenuItems(prev => prev.map(item => {
-        if (item.name === data.itemName || item.originalName === data.itemName) {
+        if (item.id === id) {
           return {
             ...item,
             imageUrl: data.imageUrl,
@@ -208,6 +472,7 @@ function App() {
     onProcessingComplete: (data) => {
       console.log('Processing completed:', data)
       setStage('completed')
+      setCurrentJobId(null)
       // Ensure all items are marked as not generating
       setMenuItems(prev => prev.map(item => ({ ...item, isGenerating: false })))
     },
@@ -215,8 +480,13 @@ function App() {
     onProcessingError: (data) => {
       console.error('Processing error:', data)
       setStage('error')
+    },
+
+    onProcessingCancelled: (data) => {
+      console.log('Processing cancelled:', data)
+      setCurrentJobId(null)
     }
-  }
+  }), [])
 
   // Initialize WebSocket connection
   useEffect(() => {
@@ -225,8 +495,270 @@ function App() {
     return () => {
       websocketService.disconnect()
     }
+  }, [websocketCallbacks])
+
+  useEffect(() => {
+    localStorage.setItem(DIETARY_PROFILE_STORAGE_KEY, JSON.stringify(dietaryProfile))
+  }, [dietaryProfile])
+
+  useEffect(() => {
+    localStorage.setItem(HOME_CURRENCY_STORAGE_KEY, homeCurrency)
+  }, [homeCurrency])
+
+  useEffect(() => {
+    localStorage.setItem(TARGET_LANGUAGES_STORAGE_KEY, JSON.stringify(targetLanguages))
+  }, [targetLanguages])
+
+  useEffect(() => {
+    websocketService.getLanguages()
+      .then(available => {
+        setLanguages(available)
+        // A stored language the backend no longer offers would fail validation
+        setTargetLanguages(prev => {
+          const supported = prev.filter(code => available.some(language => language.code === code))
+          return supported.length > 0 ? supported : ['en']
+        })
+      })
+      .catch(error => console.warn('Could not load languages:', error))
   }, [])
 
+  useEffect(() => {
+    // Without the list there is simply no conversion option
+    websocketService.getCurrencies()
+      .then(setCurrencies)
+      .catch(error => console.warn('Could not load currencies:', error))
+  }, [])
+
+  const toggleProfileValue = (field: 'allergies' | 'restrictions', value: string) => {
+    setDietaryProfile(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value) ? prev[field].filter(existing => existing !== value) : [...prev[field], value],
+    }))
+  }
+
+  const updateDislikes = (input: string) => {
+    setDislikesInput(input)
+    setDietaryProfile(prev => ({ ...prev, dislikes: input.split(',').map(dislike => dislike.trim()).filter(Boolean) }))
+  }
+
+  const languageName = (code: string) => languages.find(language => language.code === code)?.name ?? code
+
+  const addTargetLanguage = (code: string) => {
+    if (code) setTargetLanguages(prev => (prev.includes(code) ? prev : [...prev, code]).slice(0, MAX_TARGET_LANGUAGES))
+  }
+
+  const removeTargetLanguage = (code: string) => {
+    setTargetLanguages(prev => prev.filter(existing => existing !== code))
+  }
+
+  const translateJobInto = async (code: string) => {
+    if (!code || !lastJobId) return
+    try {
+      const result = await websocketService.retranslateJob(lastJobId, code)
+      if (!result.success) {
+        throw new Error(result.error || 'Translation failed')
+      }
+      setCurrentJobId(lastJobId)
+      setDisplayLanguage(null)
+    } catch (error) {
+      console.error('Failed to translate menu:', error)
+      alert(`Could not translate the menu into ${languageName(code)}`)
+    }
+  }
+
+  // The menu's own language, then the others as their translations arrive
+  const resultLanguages = [menuLanguage, ...new Set(menuItems.flatMap(item => Object.keys(item.translations ?? {})))]
+  const shownLanguage = displayLanguage ?? menuLanguage
+  // Falls back to the menu's language for items the other language missed
+  const shownName = (item: MenuItem) =>
+    (shownLanguage !== menuLanguage ? item.translations?.[shownLanguage]?.name : undefined) ?? item.name
+
+  // Items without a verdict (no profile, or still streaming in) are always shown
+  const visibleItems = menuItems.filter(item => {
+    if (!item.suitability || suitabilityFilter === 'all') return true
+    if (suitabilityFilter === 'hide-avoid') return item.suitability.verdict !== 'avoid'
+    return item.suitability.verdict === 'safe'
+  })
+  const hiddenItemCount = menuItems.length - visibleItems.length
+
+  // Items from multi-page uploads are grouped under their page
+  const menuPages = Array.from(new Set(visibleItems.map(item => item.page ?? 1))).sort((a, b) => a - b)
+
+  // Each uploaded photo is one page; PDFs expand server-side, so their pages can't be matched up
+  const canHighlightSource = uploadedImages.every(preview => preview.url)
+  const highlightedItem = menuItems.find(item => item.id === highlightedItemId)
+
+  const renderSourceHighlight = (pageIndex: number) => {
+    const region = highlightedItem?.sourceRegion
+    if (!canHighlightSource || !region || (highlightedItem.page ?? 1) !== pageIndex + 1) return null
+
+    return (
+      <div
+        className={`source-highlight ${region.lowConfidence ? 'low-confidence' : ''}`}
+        style={{
+          left: `${(region.bbox.x0 / region.imageWidth) * 100}%`,
+          top: `${(region.bbox.y0 / region.imageHeight) * 100}%`,
+          width: `${((region.bbox.x1 - region.bbox.x0) / region.imageWidth) * 100}%`,
+          height: `${((region.bbox.y1 - region.bbox.y0) / region.imageHeight) * 100}%`,
+        }}
+      />
+    )
+  }
+
+  const canOverlayTranslation = canHighlightSource && menuItems.some(item => item.sourceRegion)
+
+  // Positions a box given in photo pixels; `cqw` units scale with the rendered photo width
+  const overlayBoxStyle = (box: BoundingBox, region: SourceRegion, text: string) => {
+    const boxWidth = box.x1 - box.x0
+    const boxHeight = box.y1 - box.y0
+    // Fill the printed text's height, shrinking (to a floor) when the translation is longer
+    const fontSize = Math.max(
+      Math.min(boxHeight * 0.8, (boxWidth * 1.6) / (0.55 * Math.max(text.length, 1))),
+      boxHeight * 0.5
+    )
+
+    return {
+      left: `${(box.x0 / region.imageWidth) * 100}%`,
+      top: `${(box.y0 / region.imageHeight) * 100}%`,
+      minWidth: `${(boxWidth / region.imageWidth) * 100}%`,
+      height: `${(boxHeight / region.imageHeight) * 100}%`,
+      fontSize: `${(fontSize / region.imageWidth) * 100}cqw`,
+    }
+  }
+
+  const renderTranslationOverlay = (pageIndex: number) => {
+    if (!showTranslatedPhoto || !canOverlayTranslation) return null
+
+    return menuItems
+      .filter(item => item.sourceRegion && (item.page ?? 1) === pageIndex + 1)
+      .map(item => {
+        const region = item.sourceRegion!
+        const name = shownName(item)
+        return (
+          <div key={item.id}>
+            <span
+              className={`overlay-label ${region.lowConfidence ? 'low-confidence' : ''}`}
+              style={overlayBoxStyle(region.bbox, region, name)}
+              title={item.originalName}
+            >
+              {name}
+            </span>
+            {item.price && region.priceBbox && (
+              <span className="overlay-label overlay-price" style={overlayBoxStyle(region.priceBbox, region, item.price)}>
+                {item.price}
+              </span>
+            )}
+          </div>
+        )
+      })
+  }
+
+  const renderDietary = (dietary: DietaryInfo) => {
+    // A vegan dish is vegetarian too; one badge is enough
+    const badges = DIETARY_BADGES.filter(({ flag }) => dietary[flag] === true && !(flag === 'vegetarian' && dietary.vegan === true))
+
+    return (
+      <div className="dietary-info">
+        {(badges.length > 0 || !!dietary.spiceLevel) && (
+          <div className="dietary-badges">
+            {badges.map(({ flag, label }) => (
+              <span key={flag} className={`dietary-badge ${flag}`}>{label}</span>
+            ))}
+            {!!dietary.spiceLevel && (
+              <span className="dietary-badge spicy" title={`Spice level ${dietary.spiceLevel} of 3`}>
+                {'🌶️'.repeat(dietary.spiceLevel)}
+              </span>
+            )}
+          </div>
+        )}
+        {dietary.allergens.length > 0 && (
+          <p className="allergens">
+            <strong>Contains:</strong> {dietary.allergens.map(allergen => ALLERGEN_LABELS[allergen] ?? allergen).join(', ')}
+          </p>
+        )}
+        {dietary.confidence === 'low' && (
+          <p className="dietary-uncertain">Dietary details are a guess from the dish name — check with staff</p>
+        )}
+      </div>
+    )
+  }
+
+  // Images the backend stored come in several widths and formats, so phones don't download 1024px PNGs
+  const renderDishImage = (imageUrl: string, alt: string) => {
+    const srcSets = websocketService.imageSrcSets(imageUrl)
+    if (!srcSets) {
+      return <img src={imageUrl} alt={alt} className="dish-image" loading="lazy" />
+    }
+
+    return (
+      <picture>
+        <source type="image/avif" srcSet={srcSets.avif} sizes={DISH_IMAGE_SIZES} />
+        <source type="image/webp" srcSet={srcSets.webp} sizes={DISH_IMAGE_SIZES} />
+        <img src={imageUrl} alt={alt} className="dish-image" loading="lazy" />
+      </picture>
+    )
+  }
+
+  const renderMenuCard = (item: MenuItem) => {
+    const translation = shownLanguage !== menuLanguage ? item.translations?.[shownLanguage] : undefined
+    const name = shownName(item)
+
+    return (
+      <div
+        key={item.id}
+        className={`menu-card ${item.isGenerating ? 'generating' : ''} ${item.id === highlightedItemId ? 'highlighted' : ''} ${item.suitability ? `suitability-${item.suitability.verdict}` : ''}`}
+        onMouseEnter={() => item.sourceRegion && setHighlightedItemId(item.id)}
+        onMouseLeave={() => setHighlightedItemId(null)}
+        onClick={() => item.sourceRegion && setHighlightedItemId(id => (id === item.id ? null : item.id))}
+      >
+        {item.imageUrl && !item.isGenerating ? (
+          renderDishImage(item.imageUrl, name)
+        ) : (
+          <div className="image-placeholder">
+            <div className="image-spinner"></div>
+            <span>Generating image...</span>
+          </div>
+        )}
+        <div className="card-content">
+          <h3 className={item.isGenerating ? 'generating-text' : ''}>
+            {name}
+          </h3>
+          {item.originalName && item.originalName !== name && (
+            <p className="original-name">({item.originalName})</p>
+          )}
+          {item.suitability && (
+            <p className={`suitability ${item.suitability.verdict}`}>
+              <strong>{SUITABILITY_LABELS[item.suitability.verdict]}</strong> {suitabilityReason({ ...item.suitability, reason: translation?.reason ?? item.suitability.reason })}
+            </p>
+          )}
+          {item.sourceRegion?.lowConfidence && (
+            <p className="low-confidence-warning">⚠️ Hard to read on the menu — double-check the name</p>
+          )}
+          <p className={item.isGenerating ? 'generating-text' : ''}>
+            {translation?.description ?? item.description}
+          </p>
+          {item.price && (
+            <p className="price">{item.price}</p>
+          )}
+          {item.parsedPrice?.converted && (
+            <p className="converted-price">
+              ≈ {formatPriceOptions(item.parsedPrice.converted.options, item.parsedPrice.converted.currency)}
+            </p>
+          )}
+          {item.dietary && renderDietary(item.dietary)}
+          {item.isGenerating && (
+            <div className="generating-indicator">
+              <div className="dots">
+                <span></span><span></span><span></span>
+              </div>
+              <small>Creating your perfect dish...</small>
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="app">
       <header className="app-header">
@@ -238,14 +770,15 @@ function App() {
         <div className="upload-section">
           <div className="upload-options">
             <label htmlFor="file-input" className="upload-button">
-              📁 Upload Photo
+              📁 Upload Photos or PDF
             </label>
             <input
               id="file-input"
               type="file"
               ref={fileInputRef}
               onChange={handleFileUpload}
-              accept="image/*"
+              accept="image/*,application/pdf"
+              multiple
               style={{ display: 'none' }}
             />
             
@@ -254,6 +787,96 @@ function App() {
             </button>
           </div>
 
+          <label className="ocr-language">
+            Menu language:
+            <select value={ocrLanguage} onChange={(e) => setOcrLanguage(e.target.value)}>
+              {OCR_LANGUAGE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="target-languages">
+            Translate into:
+            {targetLanguages.map((code, index) => (
+              <span key={code} className={`language-chip ${index === 0 ? 'primary' : ''}`}>
+                {languageName(code)}
+                {targetLanguages.length > 1 && (
+                  <button onClick={() => removeTargetLanguage(code)} aria-label={`Remove ${languageName(code)}`}>×</button>
+                )}
+              </span>
+            ))}
+            {targetLanguages.length < MAX_TARGET_LANGUAGES && (
+              <select value="" onChange={(e) => addTargetLanguage(e.target.value)}>
+                <option value="">＋ Add a language</option>
+                {languages.filter(language => !targetLanguages.includes(language.code)).map(language => (
+                  <option key={language.code} value={language.code}>{language.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <label className="extraction-mode">
+            <input
+              type="checkbox"
+              checked={useVisionModel}
+              onChange={(e) => setUseVisionModel(e.target.checked)}
+            />
+            Read stylized menus with a vision model
+          </label>
+
+          {currencies.length > 0 && (
+            <label className="home-currency">
+              Also show prices in:
+              <select value={homeCurrency} onChange={(e) => setHomeCurrency(e.target.value)}>
+                <option value="">Menu currency only</option>
+                {currencies.map(currency => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <details className="dietary-profile">
+            <summary>🥗 My dietary profile{dietaryProfileSize > 0 ? ` (${dietaryProfileSize} set)` : ''}</summary>
+            <fieldset>
+              <legend>Allergies</legend>
+              {Object.entries(ALLERGEN_LABELS).map(([allergen, label]) => (
+                <label key={allergen}>
+                  <input
+                    type="checkbox"
+                    checked={dietaryProfile.allergies.includes(allergen)}
+                    onChange={() => toggleProfileValue('allergies', allergen)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </fieldset>
+            <fieldset>
+              <legend>I only eat</legend>
+              {DIETARY_BADGES.map(({ flag, label }) => (
+                <label key={flag}>
+                  <input
+                    type="checkbox"
+                    checked={dietaryProfile.restrictions.includes(flag)}
+                    onChange={() => toggleProfileValue('restrictions', flag)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </fieldset>
+            <label className="dislikes">
+              Dislikes
+              <input
+                type="text"
+                value={dislikesInput}
+                onChange={(e) => updateDislikes(e.target.value)}
+                placeholder="e.g. coriander, olives"
+              />
+            </label>
+            <small>Saved on this device and sent only with your menu uploads.</small>
+          </details>
+
           {isShowingCamera && (
             <div className="camera-section">
               <video ref={videoRef} autoPlay playsInline className="camera-preview" />
@@ -271,9 +894,39 @@ function App() {
         </div>
       )}
 
-      {uploadedImage && stage !== 'idle' && (
-        <div className="uploaded-image">
-          <img src={uploadedImage} alt="Uploaded menu" className="menu-image" />
+      {uploadedImages.length > 0 && stage !== 'idle' && (
+        <div className={`uploaded-image ${showTranslatedPhoto ? 'translated-view' : ''}`}>
+          {canOverlayTranslation && (
+            <div className="view-toggle">
+              <button
+                className={!showTranslatedPhoto ? 'active' : ''}
+                onClick={() => setShowTranslatedPhoto(false)}
+              >
+                📷 Original
+              </button>
+              <button
+                className={showTranslatedPhoto ? 'active' : ''}
+                onClick={() => setShowTranslatedPhoto(true)}
+              >
+                🔤 Translated
+              </button>
+            </div>
+          )}
+          {uploadedImages.map((preview, index) => preview.url ? (
+            <div key={index} className="menu-image-frame">
+              <img
+                src={preview.url}
+                alt={uploadedImages.length > 1 ? `Uploaded menu page ${index + 1}` : 'Uploaded menu'}
+                className="menu-image"
+              />
+              {renderTranslationOverlay(index)}
+              {renderSourceHighlight(index)}
+            </div>
+          ) : (
+            <div key={index} className="menu-image pdf-preview">
+              📄 {preview.name}
+            </div>
+          ))}
         </div>
       )}
 
@@ -316,42 +969,46 @@ function App() {
       {menuItems.length > 0 && (
         <div className="menu-results">
           <h2>🍴 Your Menu Discoveries</h2>
-          <div className="menu-grid">
-            {menuItems.map((item) => (
-              <div key={item.id} className={`menu-card ${item.isGenerating ? 'generating' : ''}`}>
-                {item.imageUrl && !item.isGenerating ? (
-                  <img src={item.imageUrl} alt={item.name} className="dish-image" />
-                ) : (
-                  <div className="image-placeholder">
-                    <div className="image-spinner"></div>
-                    <span>Generating image...</span>
-                  </div>
-                )}
-                <div className="card-content">
-                  <h3 className={item.isGenerating ? 'generating-text' : ''}>
-                    {item.name}
-                  </h3>
-                  {item.originalName && item.originalName !== item.name && (
-                    <p className="original-name">({item.originalName})</p>
-                  )}
-                  <p className={item.isGenerating ? 'generating-text' : ''}>
-                    {item.description}
-                  </p>
-                  {item.price && (
-                    <p className="price">{item.price}</p>
-                  )}
-                  {item.isGenerating && (
-                    <div className="generating-indicator">
-                      <div className="dots">
-                        <span></span><span></span><span></span>
-                      </div>
-                      <small>Creating your perfect dish...</small>
-                    </div>
-                  )}
+          {resultLanguages.length > 1 && (
+            <div className="language-tabs">
+              {resultLanguages.map(code => (
+                <button
+                  key={code}
+                  className={code === shownLanguage ? 'active' : ''}
+                  onClick={() => setDisplayLanguage(code)}
+                >
+                  {languageName(code)}
+                </button>
+              ))}
+            </div>
+          )}
+          {menuItems.some(item => item.suitability) && (
+            <div className="suitability-filter">
+              <label>
+                Show:
+                <select value={suitabilityFilter} onChange={(e) => setSuitabilityFilter(e.target.value as SuitabilityFilter)}>
+                  <option value="all">All dishes</option>
+                  <option value="hide-avoid">Hide dishes to avoid</option>
+                  <option value="safe-only">Only dishes that suit me</option>
+                </select>
+              </label>
+              {hiddenItemCount > 0 && <span>{hiddenItemCount} hidden</span>}
+            </div>
+          )}
+          {menuPages.length > 1 ? (
+            menuPages.map(page => (
+              <section key={page} className="menu-page">
+                <h3 className="menu-page-title">📄 Page {page}</h3>
+                <div className="menu-grid">
+                  {visibleItems.filter(item => (item.page ?? 1) === page).map(renderMenuCard)}
                 </div>
-              </div>
-            ))}
-          </div>
+              </section>
+            ))
+          ) : (
+            <div className="menu-grid">
+              {visibleItems.map(renderMenuCard)}
+            </div>
+          )}
           
           {stage === 'generating' && (
             <div className="more-coming">
@@ -362,9 +1019,25 @@ function App() {
         </div>
       )}
 
+      {isProcessing && (
+        <div className="completion-actions">
+          <button onClick={cancelProcessing} className="cancel-button">
+            ✕ Cancel
+          </button>
+        </div>
+      )}
+
       {(stage === 'completed' || stage === 'error') && (
         <div className="completion-actions">
-          <button onClick={resetApp} className="reset-button">
+          {lastJobId && (
+            <select className="retranslate" value="" onChange={(e) => translateJobInto(e.target.value)}>
+              <option value="">🌍 {stage === 'error' ? 'Retry in a language…' : 'Translate into another language…'}</option>
+              {languages.filter(language => stage === 'error' || !resultLanguages.includes(language.code)).map(language => (
+                <option key={language.code} value={language.code}>{language.name}</option>
+              ))}
+            </select>
+          )}
+          <button onClick={cancelProcessing} className="reset-button">
             🔄 {stage === 'error' ? 'Try Again' : 'Process Another Menu'}
           </button>
         </div>
@@ -1,26 +1,105 @@
 import { io, Socket } from 'socket.io-client';
 
+// Sent by the server as the last argument of every event
+interface EventMeta {
+  eventId: number;
+  timestamp: string;
+  replayed?: boolean;
+}
+
+export interface UploadOptions {
+  // Language code, e.g. 'en'
+  targetLanguage?: string;
+  // Overrides targetLanguage; the first is the menu's language, items get the rest as `translations`
+  targetLanguages?: string[];
+  generateImages?: boolean;
+  // Tesseract language code(s) or 'auto'
+  ocrLanguage?: string;
+  // 'vision' sends the photo to a multimodal model instead of Tesseract
+  extractionMode?: 'ocr' | 'vision';
+  dietaryProfile?: DietaryProfile;
+  // ISO 4217 code; prices are also shown converted into it
+  homeCurrency?: string;
+}
+
+// Allergen keys, DietaryInfo flags and free-text dislikes; items are judged against it
+export interface DietaryProfile {
+  allergies: string[];
+  restrictions: string[];
+  dislikes: string[];
+}
+
+export interface Suitability {
+  verdict: 'safe' | 'caution' | 'avoid';
+  reason: string;
+  // Set when the backend overrode the model's verdict; `reason` is then only an English fallback
+  reasonCode?: 'unchecked' | 'contains_allergens' | 'breaks_restrictions' | 'unclear';
+  reasonDetails?: string[];
+}
+
+// LLM-inferred; null flags mean unknown, not "no"
+export interface DietaryInfo {
+  vegetarian: boolean | null;
+  vegan: boolean | null;
+  halal: boolean | null;
+  glutenFree: boolean | null;
+  allergens: string[];
+  spiceLevel: number | null;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface ItemTranslation {
+  name: string;
+  description: string;
+  // Only for suitability reasons the model wrote; coded ones are worded here
+  reason?: string;
+}
+
+export interface TargetLanguage {
+  code: string;
+  name: string;
+}
+
+const SESSION_STORAGE_KEY = 'menuTranslatorSessionId';
+
+// Widths the backend renders stored images at, served as /images/<hash>/<width>.<format>
+const IMAGE_VARIANT_WIDTHS = [256, 512, 1024];
+const STORED_IMAGE_URL = /\/images\/[a-f0-9]{64}$/;
+
+export interface ImageSrcSets {
+  avif: string;
+  webp: string;
+}
 
 export interface WebSocketCallbacks {
   onOCRStarted: () => void;
   onOCRProgress: (data: { step: string; message: string; progress?: { current: number; total: number; percentage: number } }) => void;
-  onOCRComplete: (data: { text: string; confidence: number; processingTime: number }) => void;
+  onOCRComplete: (data: { text: string; confidence: number; processingTime: number; pages?: { page: number; text: string; confidence: number }[] }) => void;
   onOCRError: (data: { error: string; step: string; processingTime: number }) => void;
   
   onTranslationStarted: () => void;
   onTranslationProgress: (data: { step: string; message: string; progress?: { current: number; total: number; percentage: number } }) => void;
+  onTranslationPartial: (data: { items: { name: string; originalName: string; description: string; price?: string; category?: string; page?: number; dietary?: DietaryInfo; suitability?: Suitability }[]; chunk: number; totalChunks: number; sourceLanguage: string }) => void;
+  onTranslationItem: (data: { item: { name: string; originalName: string; description: string; price?: string; category?: string; page?: number; dietary?: DietaryInfo; suitability?: Suitability }; index: number }) => void;
+  // `indexes` are onTranslationItem's; those items came from a reply that was rejected
+  onTranslationRetracted: (data: { indexes: number[] }) => void;
   onTranslationComplete: (data: { translatedMenu: any[]; sourceLanguage: string; targetLanguage: string; processingTime: number }) => void;
+  // One of the job's other languages; `translations` lines up with onTranslationComplete's items
+  onTranslationLanguage: (data: { targetLanguage: string; translations: (ItemTranslation | null)[]; error?: string }) => void;
   onTranslationError: (data: { error: string; step: string; processingTime: number }) => void;
   
   onImageGenerationStarted: () => void;
   onImageGenerationProgress: (data: { step: string; message: string; progress?: { current: number; total: number; percentage: number } }) => void;
-  onImageGenerated: (data: { imageUrl: string; itemName: string; processingTime: number; progress?: { current: number; total: number; percentage: number }; fallback?: boolean; error?: string }) => void;
+  // `itemIndex` matches onTranslationComplete's items, `streamIndex` onTranslationItem's `index`
+  onImageGenerated: (data: { imageUrl: string; itemName: string; itemIndex?: number; streamIndex?: number; processingTime: number; progress?: { current: number; total: number; percentage: number }; fallback?: boolean; error?: string }) => void;
   onImageGenerationError: (data: { error: string; step: string; processingTime: number }) => void;
   
   onProcessingComplete: (data: { success: boolean; totalProcessingTime: number; summary: any }) => void;
   onProcessingError: (data: { error: string; step: string; processingTime: number }) => void;
+  onProcessingCancelled: (data: { jobId: string; stage: string; totalProcessingTime: number }) => void;
   
   onConnectionStatus: (connected: boolean) => void;
+  onConnectionFailed: () => void;
 }
 
 class WebSocketService {
@@ -30,6 +109,22 @@ class WebSocketService {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 2000;
+  // Room we ask the server to send our job events to. Unlike socket.id it survives reconnects
+  // (and page reloads), so the server can replay whatever we missed.
+  private sessionId = this.loadSessionId();
+  private lastEventId = 0;
+
+  private loadSessionId(): string {
+    const existing = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (existing) return existing;
+
+    // randomUUID is only available in secure contexts (not when testing on a phone over LAN)
+    const sessionId = typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+    return sessionId;
+  }
 
   connect(callbacks: Partial<WebSocketCallbacks>): void {
     if (this.socket?.connected) {
@@ -61,8 +156,15 @@ class WebSocketService {
       this.reconnectAttempts = 0;
       this.callbacks.onConnectionStatus?.(true);
       
-      // Join a room with the socket ID for targeted messaging
-      this.socket?.emit('join_room', this.socket.id);
+      // (Re)join our session room; the server replays events newer than lastEventId
+      this.socket?.emit('join_room', this.sessionId, { lastEventId: this.lastEventId });
+    });
+
+    this.socket.onAny((_event: string, ...args: unknown[]) => {
+      const meta = args[args.length - 1] as EventMeta | undefined;
+      if (meta && typeof meta.eventId === 'number') {
+        this.lastEventId = Math.max(this.lastEventId, meta.eventId);
+      }
     });
 
     this.socket.on('disconnect', (reason) => {
@@ -76,7 +178,7 @@ class WebSocketService {
       this.reconnectAttempts++;
       if (this.reconnectAttempts >= this.maxReconnectAttempts) {
         console.error('Max reconnection attempts reached');
-        this.callbacks.onConnectionStatus?.(false);
+        this.callbacks.onConnectionFailed?.();
       }
     });
 
@@ -116,11 +218,31 @@ class WebSocketService {
       this.callbacks.onTranslationProgress?.(data);
     });
 
+    this.socket.on('translation_partial', (data) => {
+      console.log('Translation partial:', data);
+      this.callbacks.onTranslationPartial?.(data);
+    });
+
+    this.socket.on('translation_item', (data) => {
+      console.log('Translation item:', data);
+      this.callbacks.onTranslationItem?.(data);
+    });
+
+    this.socket.on('translation_retracted', (data) => {
+      console.log('Translation retracted:', data);
+      this.callbacks.onTranslationRetracted?.(data);
+    });
+
     this.socket.on('translation_complete', (data) => {
       console.log('Translation completed:', data);
       this.callbacks.onTranslationComplete?.(data);
     });
 
+    this.socket.on('translation_language', (data) => {
+      console.log('Translation language:', data);
+      this.callbacks.onTranslationLanguage?.(data);
+    });
+
     this.socket.on('translation_error', (data) => {
       console.error('Translation error:', data);
       this.callbacks.onTranslationError?.(data);
@@ -157,18 +279,42 @@ class WebSocketService {
       console.error('Processing error:', data);
       this.callbacks.onProcessingError?.(data);
     });
+
+    this.socket.on('processing_cancelled', (data) => {
+      console.log('Processing cancelled:', data);
+      this.callbacks.onProcessingCancelled?.(data);
+    });
   }
 
-  async uploadImage(imageFile: File | Blob, targetLanguage = 'English', generateImages = true): Promise<{ success: boolean; socketId?: string; message?: string; error?: string }> {
-    if (!this.socket?.id) {
+  async uploadImage(imageFiles: File | Blob | (File | Blob)[], options: UploadOptions = {}): Promise<{ success: boolean; socketId?: string; jobId?: string; pageCount?: number; message?: string; error?: string }> {
+    if (!this.socket?.connected) {
       throw new Error('WebSocket not connected');
     }
 
     const formData = new FormData();
-    formData.append('image', imageFile);
-    formData.append('targetLanguage', targetLanguage);
+    const files = Array.isArray(imageFiles) ? imageFiles : [imageFiles];
+    if (files.length === 1) {
+      formData.append('image', files[0]);
+    } else {
+      // Pages of one menu, in order
+      files.forEach(file => formData.append('images', file));
+    }
+    const { targetLanguage = 'en', targetLanguages, generateImages = true, ocrLanguage = 'auto', extractionMode = 'ocr', dietaryProfile, homeCurrency } = options;
+    if (targetLanguages?.length) {
+      formData.append('targetLanguages', targetLanguages.join(','));
+    } else {
+      formData.append('targetLanguage', targetLanguage);
+    }
     formData.append('generateImages', generateImages.toString());
-    formData.append('socketId', this.socket.id);
+    formData.append('ocrLanguage', ocrLanguage);
+    formData.append('extractionMode', extractionMode);
+    if (dietaryProfile) {
+      formData.append('dietaryProfile', JSON.stringify(dietaryProfile));
+    }
+    if (homeCurrency) {
+      formData.append('homeCurrency', homeCurrency);
+    }
+    formData.append('socketId', this.sessionId);
 
     try {
       const response = await fetch(`${import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001'}/api/translate`, {
@@ -188,6 +334,56 @@ class WebSocketService {
     }
   }
 
+  // Languages the backend can translate into
+  async getLanguages(): Promise<TargetLanguage[]> {
+    const response = await fetch(`${import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001'}/api/languages`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const result = await response.json();
+    return result.languages;
+  }
+
+  // Currencies the backend has exchange rates for
+  async getCurrencies(): Promise<string[]> {
+    const response = await fetch(`${import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001'}/api/currencies`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const result = await response.json();
+    return result.currencies;
+  }
+
+  // Translates a finished job into another language without uploading it again; the result
+  // arrives through the usual translation callbacks
+  async retranslateJob(jobId: string, targetLanguage: string): Promise<{ success: boolean; error?: string }> {
+    const response = await fetch(`${import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001'}/api/jobs/${jobId}/translations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ targetLanguage, socketId: this.sessionId }),
+    });
+    return response.json();
+  }
+
+  async cancelJob(jobId: string): Promise<boolean> {
+    if (this.socket?.connected) {
+      return new Promise((resolve) => {
+        this.socket?.emit('cancel_job', jobId, (response: { success: boolean; error?: string }) => {
+          if (!response.success) {
+            console.warn('Cancel failed:', response.error);
+          }
+          resolve(response.success);
+        });
+      });
+    }
+
+    // Socket is down - fall back to the REST endpoint
+    const response = await fetch(`${import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001'}/api/jobs/${jobId}`, {
+      method: 'DELETE',
+    });
+    return response.ok;
+  }
+
   disconnect(): void {
     if (this.socket) {
       console.log('Disconnecting from WebSocket server');
@@ -202,10 +398,24 @@ class WebSocketService {
     return this.socket?.id || null;
   }
 
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
   isSocketConnected(): boolean {
     return this.isConnected && this.socket?.connected === true;
   }
 
+  // srcset values for an image stored by the backend; null for other URLs (stock photos, fallbacks)
+  imageSrcSets(imageUrl: string): ImageSrcSets | null {
+    if (!STORED_IMAGE_URL.test(imageUrl)) return null;
+
+    const srcSet = (format: string) => IMAGE_VARIANT_WIDTHS
+      .map(width => `${imageUrl}/${width}.${format} ${width}w`)
+      .join(', ');
+    return { avif: srcSet('avif'), webp: srcSet('webp') };
+  }
+
   // Utility method to convert canvas to blob
   canvasToBlob(canvas: HTMLCanvasElement, quality = 0.8): Promise<Blob> {
     return new Promise((resolve, reject) => {